@@ -0,0 +1,21 @@
+module.exports = {
+  root: true,
+  parser: '@typescript-eslint/parser',
+  parserOptions: {
+    ecmaVersion: 2022,
+    sourceType: 'module',
+  },
+  plugins: ['@typescript-eslint'],
+  extends: ['eslint:recommended', 'plugin:@typescript-eslint/recommended'],
+  env: {
+    node: true,
+    es2022: true,
+  },
+  rules: {
+    // Firestore document data is untyped throughout the services
+    '@typescript-eslint/no-explicit-any': 'off',
+    // tsc already reports these (noUnusedLocals / noUnusedParameters)
+    '@typescript-eslint/no-unused-vars': 'off',
+  },
+  ignorePatterns: ['dist/', 'node_modules/'],
+};
@@ -4,6 +4,8 @@ import helmet from 'helmet';
 import dotenv from 'dotenv';
 import { initializeFirebase } from './lib/firebase.js';
 import { rateLimitAPI } from './middleware/rate-limit.js';
+import { captureRawBody } from './middleware/internal-auth.js';
+import { optionalAuth } from './middleware/auth.js';
 import routes from './routes/index.js';
 
 // Load environment variables
@@ -15,6 +17,11 @@ initializeFirebase();
 const app = express();
 const PORT = process.env.PORT || 8080;
 
+// Number of proxies in front of the app (Cloud Run's front end is one), so
+// req.ip is the client's address from X-Forwarded-For rather than the proxy's
+const trustProxy = process.env.TRUST_PROXY ?? '1';
+app.set('trust proxy', /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
+
 // Middleware
 app.use(helmet());
 
@@ -40,11 +47,21 @@ app.use(cors({
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS', 'PATCH'],
   allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Accept'],
-  exposedHeaders: ['Content-Length', 'X-Request-Id', 'Retry-After'],
+  exposedHeaders: [
+    'Content-Length',
+    'X-Request-Id',
+    'Retry-After',
+    'ETag',
+    'RateLimit-Limit',
+    'RateLimit-Remaining',
+    'RateLimit-Reset',
+    'RateLimit-Policy',
+  ],
   maxAge: 86400 // 24 hours
 }));
 
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({ limit: '10mb', verify: captureRawBody }));
+app.use(optionalAuth); // Identify signed-in users so they're rate limited by uid
 app.use(rateLimitAPI);
 
 // Routes
@@ -0,0 +1,59 @@
+import crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const FORMAT_VERSION = 'v1';
+
+// Each kind of stored secret has its own key, so one leaking or being
+// rotated doesn't affect the others
+export type EncryptionKeyName = 'EXTERNAL_TOKEN_ENCRYPTION_KEY' | 'WEBHOOK_SECRET_ENCRYPTION_KEY';
+
+function getKey(keyName: EncryptionKeyName): Buffer {
+  const secret = process.env[keyName];
+  if (!secret) {
+    throw new Error(`${keyName} is not configured`);
+  }
+  // Derive a fixed-length key so any sufficiently random secret can be used
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Encrypt a secret (e.g. an OAuth token) for storage in Firestore
+ * Output format: v1:<iv>:<authTag>:<ciphertext> (base64 parts)
+ */
+export function encryptSecret(
+  plaintext: string,
+  keyName: EncryptionKeyName = 'EXTERNAL_TOKEN_ENCRYPTION_KEY'
+): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, getKey(keyName), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return [
+    FORMAT_VERSION,
+    iv.toString('base64'),
+    authTag.toString('base64'),
+    ciphertext.toString('base64'),
+  ].join(':');
+}
+
+/**
+ * Decrypt a value produced by encryptSecret with the same key
+ */
+export function decryptSecret(
+  payload: string,
+  keyName: EncryptionKeyName = 'EXTERNAL_TOKEN_ENCRYPTION_KEY'
+): string {
+  const [version, iv, authTag, ciphertext] = payload.split(':');
+  if (version !== FORMAT_VERSION || !iv || !authTag || !ciphertext) {
+    throw new Error('Unsupported encrypted payload format');
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, getKey(keyName), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
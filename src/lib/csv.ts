@@ -0,0 +1,28 @@
+export type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * Quote a field when needed. Text starting with a formula character is
+ * prefixed with ' so spreadsheets don't evaluate it.
+ */
+function escapeField(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * RFC 4180 CSV with a header row, in the given column order
+ */
+export function toCsv(columns: string[], rows: Array<Record<string, CsvValue>>): string {
+  const lines = [
+    columns.map(escapeField).join(','),
+    ...rows.map(row => columns.map(column => escapeField(row[column])).join(',')),
+  ];
+
+  return lines.join('\r\n') + '\r\n';
+}
@@ -37,3 +37,7 @@ export function getStorage() {
 export function getAuth() {
   return admin.auth();
 }
+
+export function getMessaging() {
+  return admin.messaging();
+}
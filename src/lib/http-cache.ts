@@ -0,0 +1,26 @@
+import { createHash } from 'crypto';
+import { Request, Response } from 'express';
+
+// Browser and CDN cache lifetime for public responses
+const MAX_AGE_SECONDS = Number(process.env.BROWSE_CACHE_SECONDS) || 60;
+
+/**
+ * Send a public JSON response with Cache-Control and a strong ETag. Answers
+ * 304 without a body when the client's If-None-Match is still current.
+ */
+export function sendCacheable(req: Request, res: Response, body: unknown): void {
+  const json = JSON.stringify(body);
+  const etag = `"${createHash('sha256').update(json).digest('base64url').slice(0, 27)}"`;
+
+  res.set({
+    'Cache-Control': `public, max-age=${MAX_AGE_SECONDS}, stale-while-revalidate=${MAX_AGE_SECONDS * 5}`,
+    'ETag': etag,
+  });
+
+  if (req.fresh) {
+    res.status(304).end();
+    return;
+  }
+
+  res.type('json').send(json);
+}
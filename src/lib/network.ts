@@ -0,0 +1,181 @@
+import axios from 'axios';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+export class UnsafeUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsafeUrlError';
+  }
+}
+
+// Loopback, private, link-local (incl. cloud metadata), CGNAT, documentation,
+// multicast and reserved ranges. Separate lists because a BlockList matches
+// IPv4 addresses against IPv4-mapped IPv6 rules too.
+const BLOCKED_IPV4 = new net.BlockList();
+const BLOCKED_IPV6 = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_IPV4.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['::ffff:0:0', 96], // IPv4-mapped
+  ['64:ff9b::', 96], // NAT64
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_IPV6.addSubnet(address, prefix, 'ipv6');
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+
+  return family === 4
+    ? !BLOCKED_IPV4.check(address, 'ipv4')
+    : !BLOCKED_IPV6.check(address, 'ipv6');
+}
+
+/**
+ * DNS lookup that fails when a name resolves to a non-public address. Used by
+ * the agents below so the check applies to the address actually connected to.
+ */
+const lookupPublic = ((hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+  dns.lookup(hostname, options, (error, address: string | dns.LookupAddress[], family?: number) => {
+    if (error) {
+      callback(error, address, family);
+      return;
+    }
+
+    const addresses = Array.isArray(address) ? address.map(a => a.address) : [address];
+    const blocked = addresses.find(a => !isPublicAddress(a));
+    if (blocked) {
+      callback(new UnsafeUrlError(`${hostname} resolves to a non-public address`), address, family);
+      return;
+    }
+    callback(null, address, family);
+  });
+}) as unknown as net.LookupFunction;
+
+const httpAgent = new http.Agent({ lookup: lookupPublic });
+const httpsAgent = new https.Agent({ lookup: lookupPublic });
+
+/**
+ * Parse a client-supplied URL and reject anything that isn't plain http(s).
+ * Hostnames are checked later by the agents' lookup; IP literals skip DNS, so
+ * they are checked here.
+ */
+function parsePublicUrl(url: string): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new UnsafeUrlError('Invalid URL');
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    throw new UnsafeUrlError(`Unsupported protocol ${parsed.protocol}`);
+  }
+  if (parsed.username || parsed.password) {
+    throw new UnsafeUrlError('URLs with credentials are not allowed');
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && !isPublicAddress(host)) {
+    throw new UnsafeUrlError(`${host} is not a public address`);
+  }
+
+  return parsed;
+}
+
+/**
+ * Check up front that a URL stored for later use (e.g. a webhook endpoint)
+ * currently resolves only to public addresses. Requests to it must still go
+ * through postPublicUrl/fetchPublicUrl, since DNS can change afterwards.
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  const parsed = parsePublicUrl(url);
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host)) return;
+
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(host, { all: true });
+  } catch {
+    throw new UnsafeUrlError(`${host} could not be resolved`);
+  }
+
+  if (addresses.some(({ address }) => !isPublicAddress(address))) {
+    throw new UnsafeUrlError(`${host} resolves to a non-public address`);
+  }
+}
+
+/**
+ * GET a URL supplied by a client. Only http(s) to public addresses is
+ * allowed, redirects are not followed and the body is capped at maxBytes.
+ */
+export async function fetchPublicUrl(
+  url: string,
+  options: { maxBytes: number; timeout: number }
+): Promise<Buffer> {
+  const parsed = parsePublicUrl(url);
+
+  const { data } = await axios.get<ArrayBuffer>(parsed.toString(), {
+    responseType: 'arraybuffer',
+    timeout: options.timeout,
+    maxRedirects: 0,
+    maxContentLength: options.maxBytes,
+    proxy: false,
+    httpAgent,
+    httpsAgent,
+  });
+
+  return Buffer.from(data);
+}
+
+/**
+ * POST to a URL supplied by a client, with the same restrictions as
+ * fetchPublicUrl. Resolves with the status code whatever it is; the response
+ * body is discarded.
+ */
+export async function postPublicUrl(
+  url: string,
+  body: string,
+  options: { headers: Record<string, string>; timeout: number }
+): Promise<number> {
+  const parsed = parsePublicUrl(url);
+
+  const response = await axios.post(parsed.toString(), body, {
+    headers: options.headers,
+    timeout: options.timeout,
+    maxRedirects: 0,
+    maxContentLength: 64 * 1024,
+    proxy: false,
+    httpAgent,
+    httpsAgent,
+    validateStatus: () => true,
+  });
+
+  return response.status;
+}
@@ -0,0 +1,94 @@
+export const ROLES = ['user', 'curator', 'moderator', 'admin'] as const;
+
+export type Role = typeof ROLES[number];
+
+export type Permission =
+  | 'submissions:create'
+  | 'submissions:manage_own' // Edit, withdraw and appeal own submissions
+  | 'engagement:record'
+  | 'media:upload'
+  | 'connections:manage'
+  | 'notifications:manage'
+  | 'quota:read'
+  | 'collections:manage'
+  | 'moderation:review' // Queue, claims, approve and reject
+  | 'moderation:bulk'
+  | 'moderation:appeals'
+  | 'moderation:stats'
+  | 'analytics:read'
+  | 'audit:read'
+  | 'budget:manage'
+  | 'webhooks:manage'
+  | 'roles:manage';
+
+const USER_PERMISSIONS: Permission[] = [
+  'submissions:create',
+  'submissions:manage_own',
+  'engagement:record',
+  'media:upload',
+  'connections:manage',
+  'notifications:manage',
+  'quota:read',
+];
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  user: USER_PERMISSIONS,
+  curator: [...USER_PERMISSIONS, 'collections:manage'],
+  moderator: [
+    ...USER_PERMISSIONS,
+    'moderation:review',
+    'moderation:bulk',
+    'moderation:appeals',
+    'moderation:stats',
+  ],
+  admin: [
+    ...USER_PERMISSIONS,
+    'collections:manage',
+    'moderation:review',
+    'moderation:bulk',
+    'moderation:appeals',
+    'moderation:stats',
+    'analytics:read',
+    'audit:read',
+    'budget:manage',
+    'webhooks:manage',
+    'roles:manage',
+  ],
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Roles from decoded token claims. Roles live in a `roles` array; the older
+ * `role` string and `admin`/`moderator` boolean claims are still honoured so
+ * existing staff keep access until their claims are rewritten.
+ * Every signed-in user has the `user` role.
+ */
+export function rolesFromClaims(claims: Record<string, unknown>): Role[] {
+  const roles = new Set<Role>(['user']);
+
+  if (Array.isArray(claims.roles)) {
+    claims.roles.filter(isRole).forEach(role => roles.add(role));
+  }
+  if (isRole(claims.role)) {
+    roles.add(claims.role);
+  }
+  if (claims.admin === true) {
+    roles.add('admin');
+  }
+  if (claims.moderator === true) {
+    roles.add('moderator');
+  }
+
+  return ROLES.filter(role => roles.has(role));
+}
+
+export function hasPermission(roles: Role[], permission: Permission): boolean {
+  return roles.some(role => ROLE_PERMISSIONS[role].includes(permission));
+}
+
+export function permissionsFor(roles: Role[]): Permission[] {
+  return [...new Set(roles.flatMap(role => ROLE_PERMISSIONS[role]))];
+}
@@ -0,0 +1,146 @@
+import { RateLimiterAbstract, RateLimiterMemory, RateLimiterRes } from 'rate-limiter-flexible';
+import RateLimiterStoreAbstract from 'rate-limiter-flexible/lib/RateLimiterStoreAbstract.js';
+import { getFirestore } from './firebase.js';
+import admin from 'firebase-admin';
+
+const RATE_LIMITS_COLLECTION = 'rate_limits';
+
+// Retries when another request creates or resets the same window first
+const MAX_UPSERT_ATTEMPTS = 3;
+
+// gRPC status codes for lost races (window deleted, created or reset meanwhile)
+const NOT_FOUND = 5;
+const ALREADY_EXISTS = 6;
+const FAILED_PRECONDITION = 9;
+
+interface StoredCounter {
+  points: number;
+  expiresAt: Date | null; // null = never expires
+}
+
+export interface RateLimiterOptions {
+  keyPrefix: string;
+  points: number;
+  duration: number; // Seconds
+}
+
+/**
+ * rate-limiter-flexible store backed by Firestore, so limits are shared by
+ * every instance and survive deploys. Each key is one document in
+ * `rate_limits` holding the consumed points and when the window ends
+ * (`expiresAt`, suitable for a Firestore TTL policy).
+ */
+export class RateLimiterFirestore extends RateLimiterStoreAbstract {
+  private db = getFirestore();
+
+  constructor(opts: RateLimiterOptions & { insuranceLimiter?: RateLimiterAbstract }) {
+    super({ ...opts, storeClient: getFirestore() });
+  }
+
+  private docRef(rlKey: string) {
+    // Keys may contain '/', which isn't allowed in document IDs
+    return this.db.collection(RATE_LIMITS_COLLECTION).doc(encodeURIComponent(rlKey));
+  }
+
+  _getRateLimiterRes(_rlKey: string, changedPoints: number, result: StoredCounter): RateLimiterRes {
+    const consumedPoints = result.points;
+
+    return new RateLimiterRes(
+      Math.max(this.points - consumedPoints, 0),
+      result.expiresAt ? Math.max(result.expiresAt.getTime() - Date.now(), 0) : -1,
+      consumedPoints,
+      consumedPoints === changedPoints
+    );
+  }
+
+  /**
+   * Add points to the key's counter, starting a new window if the current one
+   * has expired (or forceExpire is set, which the base class uses for blocks).
+   * Busy keys see many concurrent requests, so this avoids transactions: live
+   * windows get an atomic increment, and a new window is only written if the
+   * document is unchanged since it was read. The returned count doesn't include
+   * increments made concurrently by other requests.
+   */
+  async _upsert(rlKey: string, points: number, msDuration: number, forceExpire = false): Promise<StoredCounter> {
+    const ref = this.docRef(rlKey);
+    const newWindow = (): StoredCounter => ({
+      points,
+      expiresAt: msDuration > 0 ? new Date(Date.now() + msDuration) : null,
+    });
+
+    if (forceExpire) {
+      const counter = newWindow();
+      await ref.set(counter);
+      return counter;
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      const doc = await ref.get();
+      const current = this.toCounter(doc);
+
+      try {
+        if (current) {
+          await ref.update({ points: admin.firestore.FieldValue.increment(points) });
+          return { points: current.points + points, expiresAt: current.expiresAt };
+        }
+
+        const counter = newWindow();
+        if (doc.exists) {
+          await ref.update({ ...counter }, { lastUpdateTime: doc.updateTime! });
+        } else {
+          await ref.create(counter);
+        }
+        return counter;
+      } catch (error: any) {
+        const lostRace = [NOT_FOUND, ALREADY_EXISTS, FAILED_PRECONDITION].includes(error.code);
+        if (!lostRace || attempt >= MAX_UPSERT_ATTEMPTS) throw error;
+      }
+    }
+  }
+
+  async _get(rlKey: string): Promise<StoredCounter | null> {
+    return this.toCounter(await this.docRef(rlKey).get());
+  }
+
+  async _delete(rlKey: string): Promise<boolean> {
+    const ref = this.docRef(rlKey);
+    const doc = await ref.get();
+
+    if (!doc.exists) {
+      return false;
+    }
+
+    await ref.delete();
+    return true;
+  }
+
+  /**
+   * Returns null for missing or expired counters
+   */
+  private toCounter(doc: admin.firestore.DocumentSnapshot): StoredCounter | null {
+    const data = doc.data();
+    const expiresAt: Date | null = data?.expiresAt?.toDate() ?? null;
+
+    if (!data || (expiresAt && expiresAt <= new Date())) {
+      return null;
+    }
+
+    return { points: data.points, expiresAt };
+  }
+}
+
+/**
+ * Create a limiter on the configured store: RATE_LIMIT_STORE ("firestore" by
+ * default, or "memory" for local development). Firestore limiters fall back
+ * to a per-instance memory limiter if Firestore is unavailable.
+ */
+export function createRateLimiter(opts: RateLimiterOptions): RateLimiterAbstract {
+  if ((process.env.RATE_LIMIT_STORE || 'firestore') === 'memory') {
+    return new RateLimiterMemory(opts);
+  }
+
+  return new RateLimiterFirestore({
+    ...opts,
+    insuranceLimiter: new RateLimiterMemory(opts),
+  });
+}
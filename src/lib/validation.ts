@@ -1,30 +1,262 @@
 import { z } from 'zod';
+import { ROLES } from './permissions.js';
 
 // Submission validation
-export const SubmissionSchema = z.object({
+export const SubmissionFieldsSchema = z.object({
   type: z.enum(['design', 'technique', 'product', 'tutorial', 'tip']),
   title: z.string().min(3).max(120),
   description: z.string().min(10).max(2000).optional(),
-  mediaUrls: z.array(z.string().url()).min(1).max(10),
+  mediaUrls: z.array(z.string().url()).max(10).default([]),
+  mediaIds: z.array(z.string().min(1)).max(10).optional(), // Managed uploads (see /media/uploads)
   tags: z.array(z.string()).max(20),
   difficulty: z.enum(['beginner', 'intermediate', 'advanced']).optional(),
   priceRange: z.enum(['budget', 'mid', 'premium']).optional(),
   materials: z.array(z.string()).max(30).optional(),
 });
 
+export const SubmissionSchema = SubmissionFieldsSchema.refine(
+  (input) => {
+    const mediaCount = input.mediaUrls.length + (input.mediaIds?.length || 0);
+    return mediaCount >= 1 && mediaCount <= 10;
+  },
+  { message: 'Between 1 and 10 media items (mediaUrls + mediaIds) are required', path: ['mediaUrls'] }
+);
+
 export type SubmissionInput = z.infer<typeof SubmissionSchema>;
 
+// Resubmission: only the fields being changed. Sending mediaUrls or mediaIds replaces all media.
+export const SubmissionUpdateSchema = SubmissionFieldsSchema.partial()
+  .refine((input) => Object.values(input).some(value => value !== undefined), {
+    message: 'At least one field must be changed',
+  })
+  .refine(
+    (input) => {
+      if (input.mediaUrls === undefined && input.mediaIds === undefined) return true;
+      const mediaCount = (input.mediaUrls?.length || 0) + (input.mediaIds?.length || 0);
+      return mediaCount >= 1 && mediaCount <= 10;
+    },
+    { message: 'Between 1 and 10 media items (mediaUrls + mediaIds) are required', path: ['mediaUrls'] }
+  );
+
+export type SubmissionUpdateInput = z.infer<typeof SubmissionUpdateSchema>;
+
 // Query validation
 export const PaginationSchema = z.object({
   limit: z.coerce.number().int().min(1).max(100).default(20),
   cursor: z.string().optional(),
 });
 
+export const SubmissionStatusSchema = z.enum([
+  'moderation_pending',
+  'pending',
+  'approved',
+  'rejected',
+  'flagged',
+  'withdrawn',
+]);
+
 export const SubmissionFilterSchema = PaginationSchema.extend({
-  status: z.enum(['pending', 'approved', 'rejected', 'flagged']).optional(),
+  status: SubmissionStatusSchema.optional(),
+});
+
+const ScoreThresholdSchema = z.coerce.number().min(0).max(1).optional();
+
+export const ModerationQueueQuerySchema = PaginationSchema.extend({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  // Comma-separated; defaults to pending,flagged
+  status: z
+    .string()
+    .transform(value => value.split(',').map(status => status.trim()).filter(Boolean))
+    .pipe(z.array(SubmissionStatusSchema).min(1).max(10))
+    .optional(),
+  filter: SubmissionStatusSchema.optional(), // Deprecated alias for a single status
+  type: SubmissionFieldsSchema.shape.type.optional(),
+  tag: z.string().min(1).transform(tag => tag.toLowerCase()).optional(),
+  submitterId: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  minInappropriate: ScoreThresholdSchema,
+  minSpam: ScoreThresholdSchema,
+  minText: ScoreThresholdSchema,
+  sort: z.enum(['oldest', 'newest', 'inappropriate', 'spam']).default('oldest'),
+  includeClaimed: z
+    .enum(['true', 'false'])
+    .transform(value => value === 'true')
+    .default('false'),
+});
+
+export type ModerationQueueQuery = z.infer<typeof ModerationQueueQuerySchema>;
+
+export const AuditActionSchema = z.enum([
+  'submitted',
+  'resubmitted',
+  'moderated',
+  'approved',
+  'rejected',
+  'withdrawn',
+  'appealed',
+  'appeal_upheld',
+  'appeal_overturned',
+  'reverted',
+]);
+
+export type AuditAction = z.infer<typeof AuditActionSchema>;
+
+export const AuditLogFilterSchema = PaginationSchema.extend({
+  submissionId: z.string().optional(),
+  actorId: z.string().optional(),
+  action: AuditActionSchema.optional(),
+  toStatus: SubmissionStatusSchema.optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export type AuditLogFilter = z.infer<typeof AuditLogFilterSchema>;
+
+export const ModerationRetrySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// Notifications
+export const NotificationFilterSchema = PaginationSchema.extend({
+  unreadOnly: z
+    .enum(['true', 'false'])
+    .transform(value => value === 'true')
+    .default('false'),
+});
+
+export type NotificationFilter = z.infer<typeof NotificationFilterSchema>;
+
+export const DeviceRegistrationSchema = z.object({
+  token: z.string().min(1).max(4096),
+  platform: z.enum(['ios', 'android', 'web']),
+});
+
+export const NotificationDispatchSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+// Appeals
+export const AppealSchema = z.object({
+  message: z.string().min(20).max(1000),
+});
+
+export const AppealStatusSchema = z.enum(['open', 'upheld', 'overturned', 'closed']);
+
+export const AppealFilterSchema = z.object({
+  status: AppealStatusSchema.default('open'),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const AppealResolutionSchema = z.object({
+  outcome: z.enum(['upheld', 'overturned']),
+  note: z.string().min(10).max(500),
+});
+
+export type AppealResolutionInput = z.infer<typeof AppealResolutionSchema>;
+
+// Admin analytics
+export const AnalyticsReportNameSchema = z.enum([
+  'volume',
+  'approval-rates',
+  'review-times',
+  'rejection-reasons',
+  'flag-precision',
+  'moderation-costs',
+]);
+
+export type AnalyticsReportName = z.infer<typeof AnalyticsReportNameSchema>;
+
+// Longest date range a report may scan
+const MAX_REPORT_RANGE_MS = 366 * 86400 * 1000;
+
+export const AnalyticsQuerySchema = z.object({
+  from: z.coerce.date().default(() => new Date(Date.now() - 7 * 86400 * 1000)), // Last 7 days
+  to: z.coerce.date().default(() => new Date()),
+  format: z.enum(['json', 'csv']).default('json'),
+}).refine(
+  (input) => input.from <= input.to,
+  { message: 'from must be before to', path: ['from'] }
+).refine(
+  (input) => input.to.getTime() - input.from.getTime() <= MAX_REPORT_RANGE_MS,
+  { message: 'Date range can be at most 366 days', path: ['from'] }
+);
+
+export const ModerationStatsQuerySchema = z.object({
+  startDate: z.coerce.date().default(() => new Date(Date.now() - 30 * 86400 * 1000)), // Last 30 days
+  endDate: z.coerce.date().default(() => new Date()),
+}).refine(
+  (input) => input.startDate <= input.endDate,
+  { message: 'startDate must be before endDate', path: ['startDate'] }
+).refine(
+  (input) => input.endDate.getTime() - input.startDate.getTime() <= MAX_REPORT_RANGE_MS,
+  { message: 'Date range can be at most 366 days', path: ['startDate'] }
+);
+
+// Moderation budget
+export const DegradedModeSchema = z.enum(['manual_review', 'sample']);
+
+export type DegradedMode = z.infer<typeof DegradedModeSchema>;
+
+export const BudgetSettingsSchema = z.object({
+  monthlyBudget: z.number().positive().nullable().optional(), // USD; null removes the limit
+  degradedMode: DegradedModeSchema.optional(),
+  sampleRate: z.number().min(0).max(1).optional(),
+}).refine(
+  (input) => Object.values(input).some(value => value !== undefined),
+  { message: 'Provide at least one setting to change' }
+);
+
+export type BudgetSettingsInput = z.infer<typeof BudgetSettingsSchema>;
+
+// Role management
+export const RoleGrantSchema = z.object({
+  role: z.enum(ROLES).exclude(['user']),
+});
+
+export const RoleParamSchema = z.enum(ROLES);
+
+// Webhooks
+export const WebhookEventTypeSchema = z.enum([
+  'submission.created',
+  'submission.approved',
+  'submission.rejected',
+  'submission.reverted',
+  'entry.published',
+  'entry.unpublished',
+]);
+
+export type WebhookEventType = z.infer<typeof WebhookEventTypeSchema>;
+
+export const WebhookSubscriptionSchema = z.object({
+  url: z.string().url().refine(url => url.startsWith('https://'), { message: 'Webhook URLs must use HTTPS' }),
+  events: z.array(WebhookEventTypeSchema).min(1).transform(events => [...new Set(events)]),
+  description: z.string().max(200).optional(),
+});
+
+export type WebhookSubscriptionInput = z.infer<typeof WebhookSubscriptionSchema>;
+
+export const WebhookSubscriptionUpdateSchema = WebhookSubscriptionSchema.partial().extend({
+  active: z.boolean().optional(),
+});
+
+export type WebhookSubscriptionUpdate = z.infer<typeof WebhookSubscriptionUpdateSchema>;
+
+export const DeadLetterFilterSchema = PaginationSchema.extend({
+  subscriptionId: z.string().optional(),
+});
+
+export type DeadLetterFilter = z.infer<typeof DeadLetterFilterSchema>;
+
+export const WebhookDispatchSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(50),
 });
 
 // Moderation action validation
+export const ClaimSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(20).default(5),
+});
+
 export const ApprovalSchema = z.object({
   collectionId: z.string().min(1),
   trendScore: z.number().min(0).max(1).optional(),
@@ -34,15 +266,150 @@ export const RejectionSchema = z.object({
   reason: z.string().min(10).max(500),
 });
 
+export const MAX_BULK_MODERATION_SIZE = 50;
+
+const BulkSubmissionIdsSchema = z
+  .array(z.string().min(1))
+  .min(1)
+  .max(MAX_BULK_MODERATION_SIZE)
+  .refine(ids => new Set(ids).size === ids.length, { message: 'Submission IDs must be unique' });
+
+export const BulkModerationSchema = z.discriminatedUnion('action', [
+  ApprovalSchema.extend({
+    action: z.literal('approve'),
+    submissionIds: BulkSubmissionIdsSchema,
+  }),
+  RejectionSchema.extend({
+    action: z.literal('reject'),
+    submissionIds: BulkSubmissionIdsSchema,
+  }),
+]);
+
+export type BulkModerationInput = z.infer<typeof BulkModerationSchema>;
+
+// Collections (curation)
+export const CollectionVisibilitySchema = z.enum(['public', 'unlisted', 'hidden']);
+
+export type CollectionVisibility = z.infer<typeof CollectionVisibilitySchema>;
+
+const CollectionFieldsSchema = z.object({
+  title: z.string().min(3).max(80),
+  description: z.string().max(500).nullable(),
+  coverUrl: z.string().url().nullable(),
+  visibility: CollectionVisibilitySchema,
+  position: z.number().int(), // Lower first
+  activeFrom: z.coerce.date().nullable(),
+  activeUntil: z.coerce.date().nullable(),
+});
+
+const validWindow = (input: { activeFrom?: Date | null; activeUntil?: Date | null }) =>
+  !input.activeFrom || !input.activeUntil || input.activeFrom < input.activeUntil;
+
+export const CollectionSchema = CollectionFieldsSchema.extend({
+  // Optional readable ID, e.g. "spring-nail-art"; generated when omitted
+  slug: z.string().regex(/^[a-z0-9][a-z0-9-]{1,58}[a-z0-9]$/).optional(),
+  description: CollectionFieldsSchema.shape.description.default(null),
+  coverUrl: CollectionFieldsSchema.shape.coverUrl.default(null),
+  visibility: CollectionVisibilitySchema.default('hidden'),
+  position: CollectionFieldsSchema.shape.position.default(0),
+  activeFrom: CollectionFieldsSchema.shape.activeFrom.default(null),
+  activeUntil: CollectionFieldsSchema.shape.activeUntil.default(null),
+}).refine(validWindow, { message: 'activeFrom must be before activeUntil', path: ['activeUntil'] });
+
+export type CollectionInput = z.infer<typeof CollectionSchema>;
+
+export const CollectionUpdateSchema = CollectionFieldsSchema.partial()
+  .refine(
+    (input) => Object.values(input).some(value => value !== undefined),
+    { message: 'Provide at least one field to update' }
+  )
+  .refine(validWindow, { message: 'activeFrom must be before activeUntil', path: ['activeUntil'] });
+
+export type CollectionUpdate = z.infer<typeof CollectionUpdateSchema>;
+
+export const CollectionFilterSchema = PaginationSchema.extend({
+  visibility: CollectionVisibilitySchema.optional(),
+});
+
+export type CollectionFilter = z.infer<typeof CollectionFilterSchema>;
+
+export const EntryOrderSchema = z.object({
+  entryIds: z
+    .array(z.string().min(1))
+    .min(2)
+    .max(100)
+    .refine(ids => new Set(ids).size === ids.length, { message: 'Entry IDs must be unique' }),
+});
+
+export const EntryMoveSchema = z.object({
+  toCollectionId: z.string().min(1),
+});
+
+// Public browse
+const commaList = <T extends z.ZodTypeAny>(item: T) =>
+  z
+    .string()
+    .transform(value => value.split(',').map(part => part.trim()).filter(Boolean))
+    .pipe(z.array(item).min(1).max(10))
+    .optional();
+
+// Values within a facet are alternatives; different facets must all match
+export const BrowseEntriesQuerySchema = PaginationSchema.extend({
+  type: commaList(SubmissionFieldsSchema.shape.type),
+  tags: commaList(z.string().min(1).transform(tag => tag.toLowerCase())),
+  difficulty: commaList(SubmissionFieldsSchema.shape.difficulty.unwrap()),
+  priceRange: commaList(SubmissionFieldsSchema.shape.priceRange.unwrap()),
+  materials: commaList(z.string().min(1).transform(material => material.toLowerCase())),
+  collectionId: z.string().min(1).optional(),
+  sort: z.enum(['trending', 'newest']).default('trending'),
+});
+
+export type BrowseEntriesQuery = z.infer<typeof BrowseEntriesQuerySchema>;
+
 // Engagement tracking
 export const EngagementSchema = z.object({
+  collectionId: z.string().min(1),
   entryId: z.string().min(1),
   action: z.enum(['view', 'save', 'share', 'book']),
-  duration: z.number().int().min(0).optional(), // seconds spent viewing
+  duration: z.number().int().min(0).max(3600).optional(), // seconds spent viewing
+});
+
+export type EngagementInput = z.infer<typeof EngagementSchema>;
+
+// Batched engagement events (mobile clients flush their buffer periodically)
+export const EngagementBatchSchema = z.object({
+  events: z.array(EngagementSchema).min(1).max(50),
 });
 
 // External connection
+export const ExternalPlatformSchema = z.enum(['instagram', 'tiktok']);
+
+export type ExternalPlatform = z.infer<typeof ExternalPlatformSchema>;
+
 export const ExternalConnectionSchema = z.object({
   authCode: z.string().min(1),
-  platform: z.enum(['instagram', 'tiktok']),
+  platform: ExternalPlatformSchema,
+});
+
+export const ExternalImportSchema = z.object({
+  postIds: z.array(z.string().min(1)).min(1).max(10).transform(ids => [...new Set(ids)]),
+  type: SubmissionFieldsSchema.shape.type,
+  tags: z.array(z.string()).max(20).default([]),
+  difficulty: SubmissionFieldsSchema.shape.difficulty,
+  priceRange: SubmissionFieldsSchema.shape.priceRange,
+});
+
+export type ExternalImportInput = z.infer<typeof ExternalImportSchema>;
+
+// Media uploads
+export const MEDIA_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp'] as const;
+
+export const MediaUploadSchema = z.object({
+  files: z.array(z.object({
+    contentType: z.enum(MEDIA_CONTENT_TYPES),
+    size: z.number().int().positive(), // bytes
+    filename: z.string().max(200).optional(),
+  })).min(1).max(10),
 });
+
+export type MediaUploadInput = z.infer<typeof MediaUploadSchema>;
@@ -1,11 +1,32 @@
 import { Request, Response, NextFunction } from 'express';
 import { getAuth } from '../lib/firebase.js';
+import { Permission, Role, hasPermission, rolesFromClaims } from '../lib/permissions.js';
 
 export interface AuthenticatedRequest extends Request {
   user?: {
     uid: string;
     email?: string;
-    role?: string;
+    roles: Role[];
+  };
+}
+
+/**
+ * Verify an ID token. Revoking a role also revokes the user's tokens, so
+ * tokens carrying staff roles are checked for revocation; that costs a
+ * lookup, so plain user tokens skip it.
+ */
+async function verifyUser(token: string): Promise<NonNullable<AuthenticatedRequest['user']>> {
+  const decodedToken = await getAuth().verifyIdToken(token);
+  const roles = rolesFromClaims(decodedToken);
+
+  if (roles.some(role => role !== 'user')) {
+    await getAuth().verifyIdToken(token, true);
+  }
+
+  return {
+    uid: decodedToken.uid,
+    email: decodedToken.email,
+    roles,
   };
 }
 
@@ -14,6 +35,12 @@ export async function authenticateUser(
   res: Response,
   next: NextFunction
 ): Promise<void> {
+  // Already verified by optionalAuth ahead of the rate limiter
+  if (req.user) {
+    next();
+    return;
+  }
+
   const authHeader = req.headers.authorization;
   
   if (!authHeader?.startsWith('Bearer ')) {
@@ -24,12 +51,7 @@ export async function authenticateUser(
   const token = authHeader.substring(7);
 
   try {
-    const decodedToken = await getAuth().verifyIdToken(token);
-    req.user = {
-      uid: decodedToken.uid,
-      email: decodedToken.email,
-      role: decodedToken.role || 'user',
-    };
+    req.user = await verifyUser(token);
     next();
   } catch (error) {
     console.error('[Auth] Token verification failed:', error);
@@ -44,21 +66,16 @@ export function optionalAuth(
 ): void {
   const authHeader = req.headers.authorization;
   
-  if (!authHeader?.startsWith('Bearer ')) {
-    next(); // No token, continue without user
+  if (req.user || !authHeader?.startsWith('Bearer ')) {
+    next(); // Already verified, or no token: continue without user
     return;
   }
 
   const token = authHeader.substring(7);
 
-  getAuth()
-    .verifyIdToken(token)
-    .then((decodedToken: any) => {
-      req.user = {
-        uid: decodedToken.uid,
-        email: decodedToken.email,
-        role: decodedToken.role || 'user',
-      };
+  verifyUser(token)
+    .then((user) => {
+      req.user = user;
       next();
     })
     .catch(() => {
@@ -67,18 +84,22 @@ export function optionalAuth(
     });
 }
 
-export function requireRole(role: string) {
+/**
+ * Allow the request only if one of the user's roles grants the permission
+ * (see lib/permissions.ts). Use after authenticateUser.
+ */
+export function requirePermission(permission: Permission) {
   return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
     if (!req.user) {
       res.status(401).json({ error: 'Authentication required' });
       return;
     }
-    
-    if (req.user.role !== role && req.user.role !== 'admin') {
-      res.status(403).json({ error: 'Insufficient permissions' });
+
+    if (!hasPermission(req.user.roles, permission)) {
+      res.status(403).json({ error: 'Insufficient permissions', required: permission });
       return;
     }
-    
+
     next();
   };
 }
@@ -0,0 +1,207 @@
+import crypto from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+import { Request, Response, NextFunction } from 'express';
+import { OAuth2Client } from 'google-auth-library';
+import { RateLimiterAbstract } from 'rate-limiter-flexible';
+import { createRateLimiter } from '../lib/rate-limit-store.js';
+
+// Requests signed longer ago than this are rejected, which limits replays
+const HMAC_MAX_SKEW_SECONDS = 300;
+
+export const CALLER_HEADER = 'x-internal-caller';
+export const TIMESTAMP_HEADER = 'x-internal-timestamp';
+export const SIGNATURE_HEADER = 'x-internal-signature';
+
+export interface InternalCaller {
+  id: string; // Service account email or HMAC caller name
+  method: 'oidc' | 'hmac';
+}
+
+export interface InternalRequest extends Request {
+  caller?: InternalCaller;
+  rawBody?: Buffer; // Set by the express.json verify callback
+}
+
+/**
+ * Parse "name:value,name:value" lists. A name may appear more than once,
+ * which is how HMAC secrets are rotated: both the old and new secret are
+ * accepted until the old one is removed.
+ */
+function parsePairs(value: string | undefined): Array<[string, string]> {
+  return (value || '')
+    .split(',')
+    .map(pair => pair.trim())
+    .filter(Boolean)
+    .map((pair) => {
+      const separator = pair.indexOf(':');
+      return [pair.slice(0, separator).trim(), pair.slice(separator + 1).trim()] as [string, string];
+    })
+    .filter(([name, secret]) => name && secret);
+}
+
+const allowedServiceAccounts = (process.env.INTERNAL_ALLOWED_SERVICE_ACCOUNTS || '')
+  .split(',')
+  .map(email => email.trim().toLowerCase())
+  .filter(Boolean);
+
+const hmacSecrets = parsePairs(process.env.INTERNAL_HMAC_SECRETS);
+
+const defaultQuota = Number(process.env.INTERNAL_QUOTA_PER_MINUTE) || 600;
+const callerQuotas = new Map(
+  parsePairs(process.env.INTERNAL_CALLER_QUOTAS).map(([caller, points]) => [caller, Number(points)])
+);
+const quotaLimiters = new Map<string, RateLimiterAbstract>();
+
+let oidcClient: OAuth2Client | undefined;
+
+/**
+ * Signature for HMAC callers: hex HMAC-SHA256 of
+ * "<timestamp>.<METHOD>.<path with query>.<raw body>", sent as "v1=<hex>"
+ */
+export function signInternalRequest(
+  secret: string,
+  timestamp: number,
+  method: string,
+  path: string,
+  body: string | Buffer
+): string {
+  const signature = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${method.toUpperCase()}.${path}.`)
+    .update(body)
+    .digest('hex');
+  return `v1=${signature}`;
+}
+
+async function verifyOidcToken(token: string): Promise<InternalCaller | null> {
+  // Without an audience any Google-signed token for these accounts would pass
+  if (allowedServiceAccounts.length === 0 || !process.env.INTERNAL_AUTH_AUDIENCE) {
+    return null;
+  }
+
+  oidcClient ??= new OAuth2Client();
+
+  try {
+    const ticket = await oidcClient.verifyIdToken({
+      idToken: token,
+      audience: process.env.INTERNAL_AUTH_AUDIENCE,
+    });
+    const payload = ticket.getPayload();
+    const email = payload?.email?.toLowerCase();
+
+    if (!email || !payload?.email_verified || !allowedServiceAccounts.includes(email)) {
+      console.warn(`[InternalAuth] Rejected OIDC token for ${email || 'unknown'}`);
+      return null;
+    }
+
+    return { id: email, method: 'oidc' };
+  } catch (error) {
+    console.warn('[InternalAuth] OIDC token verification failed:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+function verifyHmacSignature(req: InternalRequest): InternalCaller | null {
+  const callerId = req.get(CALLER_HEADER);
+  const timestamp = Number(req.get(TIMESTAMP_HEADER));
+  const signature = req.get(SIGNATURE_HEADER) || '';
+
+  if (!callerId || !Number.isFinite(timestamp)) {
+    return null;
+  }
+  if (Math.abs(Date.now() / 1000 - timestamp) > HMAC_MAX_SKEW_SECONDS) {
+    console.warn(`[InternalAuth] Stale HMAC timestamp from ${callerId}`);
+    return null;
+  }
+
+  const secrets = hmacSecrets.filter(([name]) => name === callerId).map(([, secret]) => secret);
+  const received = Buffer.from(signature);
+
+  const valid = secrets.some((secret) => {
+    const expected = Buffer.from(
+      signInternalRequest(secret, timestamp, req.method, req.originalUrl, req.rawBody || '')
+    );
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  });
+
+  if (!valid) {
+    console.warn(`[InternalAuth] Invalid HMAC signature from ${callerId}`);
+    return null;
+  }
+
+  return { id: callerId, method: 'hmac' };
+}
+
+function getQuotaLimiter(callerId: string): RateLimiterAbstract {
+  let limiter = quotaLimiters.get(callerId);
+
+  if (!limiter) {
+    limiter = createRateLimiter({
+      keyPrefix: 'internal',
+      points: callerQuotas.get(callerId) || defaultQuota,
+      duration: 60, // 1 minute
+    });
+    quotaLimiters.set(callerId, limiter);
+  }
+
+  return limiter;
+}
+
+/**
+ * Authenticate service-to-service calls. Accepts either a Google-signed OIDC
+ * identity token from a service account in INTERNAL_ALLOWED_SERVICE_ACCOUNTS,
+ * or a request signed with one of the caller's INTERNAL_HMAC_SECRETS.
+ * Each caller is limited to its per-minute quota.
+ */
+export async function authenticateInternal(
+  req: InternalRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const authHeader = req.headers.authorization;
+
+  const caller = authHeader?.startsWith('Bearer ')
+    ? await verifyOidcToken(authHeader.substring(7))
+    : req.get(SIGNATURE_HEADER)
+      ? verifyHmacSignature(req)
+      : null;
+
+  if (!caller) {
+    res.status(401).json({ error: 'Internal authentication required' });
+    return;
+  }
+
+  try {
+    await getQuotaLimiter(caller.id).consume(caller.id);
+  } catch (rejRes: any) {
+    if (rejRes instanceof Error) {
+      // The limiter store failed, not the caller's quota
+      console.error('[InternalAuth] Quota limiter unavailable:', rejRes);
+      res.status(503).json({ error: 'Caller quota check unavailable' });
+      return;
+    }
+
+    const retryAfter = Math.ceil(rejRes.msBeforeNext / 1000);
+    console.warn(`[InternalAuth] Quota exceeded for ${caller.id}`);
+    res.set('Retry-After', String(retryAfter));
+    res.status(429).json({
+      error: 'Caller quota exceeded',
+      retryAfter,
+    });
+    return;
+  }
+
+  req.caller = caller;
+  console.log(`[Internal] ${req.method} ${req.originalUrl} by ${caller.id} (${caller.method})`);
+  next();
+}
+
+/**
+ * express.json verify callback that keeps the raw body of internal requests
+ * for HMAC verification
+ */
+export function captureRawBody(req: IncomingMessage, _res: ServerResponse, buf: Buffer): void {
+  if (req.url?.startsWith('/api/internal/')) {
+    (req as InternalRequest).rawBody = buf;
+  }
+}
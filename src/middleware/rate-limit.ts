@@ -1,58 +1,204 @@
-import { RateLimiterMemory } from 'rate-limiter-flexible';
+import { RateLimiterAbstract, RateLimiterRes } from 'rate-limiter-flexible';
 import { Request, Response, NextFunction } from 'express';
 import { AuthenticatedRequest } from './auth.js';
+import { createRateLimiter } from '../lib/rate-limit-store.js';
+import { Role } from '../lib/permissions.js';
 
-// Daily submission limit per user
-const submissionLimiter = new RateLimiterMemory({
-  points: Number(process.env.RATE_LIMIT_SUBMISSIONS_DAILY) || 10,
-  duration: 86400, // 24 hours
-});
+export type RateLimitTier = 'anonymous' | Role;
 
-// General API rate limit
-const apiLimiter = new RateLimiterMemory({
-  points: Number(process.env.RATE_LIMIT_API_PER_MINUTE) || 60,
-  duration: 60, // 1 minute
-});
+const API_WINDOW_SECONDS = 60; // 1 minute
+const SUBMISSION_WINDOW_SECONDS = 86400; // 24 hours
 
-export async function rateLimitSubmissions(
+const apiPerMinute = Number(process.env.RATE_LIMIT_API_PER_MINUTE) || 60;
+const submissionsDaily = Number(process.env.RATE_LIMIT_SUBMISSIONS_DAILY) || 10;
+
+// Signed-in users get more than anonymous IPs; staff get more still
+const TIERS: Record<RateLimitTier, { apiPerMinute: number; submissionsDaily: number }> = {
+  anonymous: { apiPerMinute, submissionsDaily: 0 },
+  user: { apiPerMinute: apiPerMinute * 2, submissionsDaily },
+  curator: { apiPerMinute: apiPerMinute * 5, submissionsDaily: submissionsDaily * 5 },
+  moderator: { apiPerMinute: apiPerMinute * 10, submissionsDaily: submissionsDaily * 5 },
+  admin: { apiPerMinute: apiPerMinute * 20, submissionsDaily: submissionsDaily * 10 },
+};
+
+// Created on first use, after Firebase is initialized. Tiers share a key
+// prefix so a role change keeps the points already consumed.
+const limiters = new Map<string, RateLimiterAbstract>();
+
+function getLimiter(kind: 'api' | 'submissions', tier: RateLimitTier): RateLimiterAbstract {
+  const name = `${kind}:${tier}`;
+  let limiter = limiters.get(name);
+
+  if (!limiter) {
+    limiter = createRateLimiter({
+      keyPrefix: kind,
+      points: kind === 'api' ? TIERS[tier].apiPerMinute : TIERS[tier].submissionsDaily,
+      duration: kind === 'api' ? API_WINDOW_SECONDS : SUBMISSION_WINDOW_SECONDS,
+    });
+    limiters.set(name, limiter);
+  }
+
+  return limiter;
+}
+
+/**
+ * Highest role the user holds; roles are listed lowest first
+ */
+export function tierFor(user: AuthenticatedRequest['user']): RateLimitTier {
+  return user ? user.roles[user.roles.length - 1] : 'anonymous';
+}
+
+/**
+ * Authenticated requests are limited per user, anonymous ones per IP
+ */
+function apiKey(req: AuthenticatedRequest): string {
+  return req.user ? `uid:${req.user.uid}` : `ip:${req.ip || 'anonymous'}`;
+}
+
+/**
+ * Standard RateLimit-* headers (IETF draft): limit, remaining points and
+ * seconds until the window resets
+ */
+function setRateLimitHeaders(res: Response, limiter: RateLimiterAbstract, result: RateLimiterRes): void {
+  res.set({
+    'RateLimit-Limit': String(limiter.points),
+    'RateLimit-Remaining': String(Math.max(result.remainingPoints, 0)),
+    'RateLimit-Reset': String(Math.ceil(Math.max(result.msBeforeNext, 0) / 1000)),
+    'RateLimit-Policy': `${limiter.points};w=${limiter.duration}`,
+  });
+}
+
+async function consume(
   req: AuthenticatedRequest,
   res: Response,
-  next: NextFunction
+  next: NextFunction,
+  limiter: RateLimiterAbstract,
+  key: string,
+  points: number,
+  error: string
 ): Promise<void> {
-  if (!req.user) {
-    res.status(401).json({ error: 'Authentication required' });
-    return;
-  }
+  let result: RateLimiterRes;
 
   try {
-    await submissionLimiter.consume(req.user.uid);
-    next();
+    result = await limiter.consume(key, points);
   } catch (rejRes: any) {
+    if (rejRes instanceof Error) {
+      // Store and fallback both failed; don't take the API down with them
+      console.error('[RateLimit] Limiter unavailable:', rejRes);
+      next();
+      return;
+    }
+
     const retryAfter = Math.ceil(rejRes.msBeforeNext / 1000);
+    setRateLimitHeaders(res, limiter, rejRes);
     res.set('Retry-After', String(retryAfter));
     res.status(429).json({
-      error: 'Daily submission limit reached',
+      error,
+      tier: tierFor(req.user),
       retryAfter,
     });
+    return;
   }
+
+  setRateLimitHeaders(res, limiter, result);
+  next();
 }
 
-export async function rateLimitAPI(
-  req: Request,
+export async function rateLimitSubmissions(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  if (!req.user) {
+    res.status(401).json({ error: 'Authentication required' });
+    return;
+  }
+
+  const limiter = getLimiter('submissions', tierFor(req.user));
+  await consume(req, res, next, limiter, req.user.uid, 1, 'Daily submission limit reached');
+}
+
+/**
+ * Imports create one submission per post, so they reserve one point per
+ * requested post. The route gives back the points for posts that weren't
+ * imported with refundImportPoints.
+ */
+export async function rateLimitImports(
+  req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
 ): Promise<void> {
-  const key = req.ip || 'anonymous';
+  if (!req.user) {
+    res.status(401).json({ error: 'Authentication required' });
+    return;
+  }
+
+  const postIds: unknown[] = Array.isArray(req.body?.postIds) ? req.body.postIds : [];
+  const points = Math.max(new Set(postIds).size, 1);
+  const limiter = getLimiter('submissions', tierFor(req.user));
+
+  res.locals.importPointsReserved = points;
+  await consume(req, res, next, limiter, req.user.uid, points, 'Daily submission limit reached');
+}
+
+/**
+ * Return reserved import points not used by an import: posts that were
+ * invalid, already imported or failed, or all of them when the request failed
+ */
+export async function refundImportPoints(req: AuthenticatedRequest, res: Response, imported: number): Promise<void> {
+  const unused = (res.locals.importPointsReserved || 0) - imported;
+  if (!req.user || unused <= 0) return;
 
   try {
-    await apiLimiter.consume(key);
+    await getLimiter('submissions', tierFor(req.user)).reward(req.user.uid, unused);
+  } catch (error) {
+    console.error('[RateLimit] Failed to refund import points:', error);
+  }
+}
+
+/**
+ * General API limit. Runs after optionalAuth so signed-in users are keyed
+ * by uid and get their role's tier. Internal routes are skipped: they have
+ * per-caller quotas in authenticateInternal.
+ */
+export async function rateLimitAPI(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  if (req.path.startsWith('/api/internal/')) {
     next();
-  } catch (rejRes: any) {
-    const retryAfter = Math.ceil(rejRes.msBeforeNext / 1000);
-    res.set('Retry-After', String(retryAfter));
-    res.status(429).json({
-      error: 'Rate limit exceeded',
-      retryAfter,
-    });
+    return;
   }
+
+  const authReq = req as AuthenticatedRequest;
+  const limiter = getLimiter('api', tierFor(authReq.user));
+  await consume(authReq, res, next, limiter, apiKey(authReq), 1, 'Rate limit exceeded');
+}
+
+/**
+ * Remaining API and submission quota for a signed-in user, without consuming any
+ */
+export async function getQuota(user: NonNullable<AuthenticatedRequest['user']>) {
+  const tier = tierFor(user);
+
+  const describe = async (limiter: RateLimiterAbstract, key: string) => {
+    const current = await limiter.get(key);
+
+    return {
+      limit: limiter.points,
+      remaining: current ? Math.max(current.remainingPoints, 0) : limiter.points,
+      windowSeconds: limiter.duration,
+      resetsAt: current && current.msBeforeNext >= 0
+        ? new Date(Date.now() + current.msBeforeNext).toISOString()
+        : null,
+    };
+  };
+
+  const [api, submissions] = await Promise.all([
+    describe(getLimiter('api', tier), `uid:${user.uid}`),
+    describe(getLimiter('submissions', tier), user.uid),
+  ]);
+
+  return { tier, api, submissions };
 }
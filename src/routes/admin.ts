@@ -1,41 +1,56 @@
 import { Router, Response } from 'express';
-import { authenticateUser, AuthenticatedRequest } from '../middleware/auth.js';
+import { authenticateUser, requirePermission, AuthenticatedRequest } from '../middleware/auth.js';
 import { getModerationStats } from '../services/moderation.js';
+import { AuditLogService } from '../services/audit-log.js';
+import { AppealService } from '../services/appeals.js';
+import { WebhookService } from '../services/webhooks.js';
+import { RoleService } from '../services/roles.js';
+import { ModerationCostService, costPeriods } from '../services/moderation-costs.js';
+import { AnalyticsService } from '../services/analytics.js';
+import { toCsv } from '../lib/csv.js';
+import {
+  AuditLogFilterSchema,
+  WebhookSubscriptionSchema,
+  WebhookSubscriptionUpdateSchema,
+  DeadLetterFilterSchema,
+  RoleGrantSchema,
+  RoleParamSchema,
+  BudgetSettingsSchema,
+  AnalyticsReportNameSchema,
+  AnalyticsQuerySchema,
+  ModerationStatsQuerySchema,
+} from '../lib/validation.js';
 
 const router = Router();
 
 /**
  * GET /api/admin/moderation/stats
- * Get Vision API usage statistics (admin only)
+ * Get Vision API usage statistics (admins and moderators)
  */
-router.get('/moderation/stats', authenticateUser, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+router.get('/moderation/stats', authenticateUser, requirePermission('moderation:stats'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    // Check if user has admin or moderator role
-    const customClaims = (req.user as any)?.customClaims || {};
-    if (!customClaims.admin && !customClaims.moderator) {
-      res.status(403).json({ error: 'Admin or moderator access required' });
-      return;
-    }
-
-    // Parse date range from query params
-    const startDate = req.query.startDate 
-      ? new Date(req.query.startDate as string) 
-      : undefined;
-    const endDate = req.query.endDate 
-      ? new Date(req.query.endDate as string) 
-      : undefined;
+    // Defaults to the last 30 days; at most 366 days
+    const { startDate, endDate } = ModerationStatsQuerySchema.parse(req.query);
 
-    const stats = await getModerationStats(startDate, endDate);
+    const [stats, appeals] = await Promise.all([
+      getModerationStats(startDate, endDate),
+      new AppealService().getAppealStats(startDate, endDate),
+    ]);
 
     res.json({
       success: true,
       stats,
+      appeals,
       period: {
-        start: startDate?.toISOString() || 'all time',
-        end: endDate?.toISOString() || 'now',
+        start: startDate.toISOString(),
+        end: endDate.toISOString(),
       },
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      res.status(400).json({ error: 'Invalid date range', details: error.errors });
+      return;
+    }
     console.error('[Admin] Error fetching moderation stats:', error);
     res.status(500).json({ 
       error: 'Failed to fetch moderation statistics',
@@ -48,28 +63,19 @@ router.get('/moderation/stats', authenticateUser, async (req: AuthenticatedReque
  * GET /api/admin/moderation/monthly-cost
  * Get current month's Vision API cost
  */
-router.get('/moderation/monthly-cost', authenticateUser, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+router.get('/moderation/monthly-cost', authenticateUser, requirePermission('moderation:stats'), async (_req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const customClaims = (req.user as any)?.customClaims || {};
-    if (!customClaims.admin && !customClaims.moderator) {
-      res.status(403).json({ error: 'Admin or moderator access required' });
-      return;
-    }
-
-    const thisMonth = new Date();
-    thisMonth.setDate(1);
-    thisMonth.setHours(0, 0, 0, 0);
-
-    const stats = await getModerationStats(thisMonth);
+    const { month } = costPeriods();
+    const counter = await new ModerationCostService().getCounter(month);
 
     res.json({
       success: true,
-      month: thisMonth.toISOString().substring(0, 7), // YYYY-MM
-      totalCost: stats.totalCost,
-      totalImages: stats.totalImages,
-      requestCount: stats.requestCount,
-      averageCostPerImage: stats.averageCostPerImage,
-      costPerRequest: stats.requestCount > 0 ? stats.totalCost / stats.requestCount : 0,
+      month, // YYYY-MM (UTC)
+      totalCost: counter.cost,
+      totalImages: counter.images,
+      requestCount: counter.requests,
+      averageCostPerImage: counter.images > 0 ? counter.cost / counter.images : 0,
+      costPerRequest: counter.requests > 0 ? counter.cost / counter.requests : 0,
     });
   } catch (error) {
     console.error('[Admin] Error fetching monthly cost:', error);
@@ -80,4 +86,366 @@ router.get('/moderation/monthly-cost', authenticateUser, async (req: Authenticat
   }
 });
 
+/**
+ * GET /api/admin/moderation/budget
+ * Monthly moderation budget, spend so far (month and today) and the biggest
+ * spenders by user and internal caller (admin only)
+ */
+router.get(
+  '/moderation/budget',
+  authenticateUser,
+  requirePermission('budget:manage'),
+  async (_req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const costService = new ModerationCostService();
+      const { month, day } = costPeriods();
+
+      const [budget, today, topUsers, topCallers] = await Promise.all([
+        costService.getBudgetStatus(),
+        costService.getCounter(day),
+        costService.getTopSpenders(month, 'users'),
+        costService.getTopSpenders(month, 'callers'),
+      ]);
+
+      res.json({ budget, today, topUsers, topCallers });
+    } catch (error) {
+      console.error('[Admin] Error fetching moderation budget:', error);
+      res.status(500).json({ error: 'Failed to fetch moderation budget' });
+    }
+  }
+);
+
+/**
+ * PUT /api/admin/moderation/budget
+ * Change the monthly budget, or what happens once it's reached (admin only)
+ */
+router.put(
+  '/moderation/budget',
+  authenticateUser,
+  requirePermission('budget:manage'),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const input = BudgetSettingsSchema.parse(req.body);
+      const budget = await new ModerationCostService().updateSettings(req.user!.uid, input);
+      res.json({ success: true, budget });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid budget settings', details: error.errors });
+        return;
+      }
+      console.error('[Admin] Error updating moderation budget:', error);
+      res.status(500).json({ error: 'Failed to update moderation budget' });
+    }
+  }
+);
+
+/**
+ * GET /api/admin/analytics/:report?from=...&to=...&format=csv
+ * Submission funnel reports: volume, approval-rates, review-times,
+ * rejection-reasons, flag-precision, moderation-costs (admin only)
+ * format=csv downloads the rows as a spreadsheet
+ */
+router.get(
+  '/analytics/:report',
+  authenticateUser,
+  requirePermission('analytics:read'),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const report = AnalyticsReportNameSchema.parse(req.params.report);
+      const { from, to, format } = AnalyticsQuerySchema.parse(req.query);
+      const result = await new AnalyticsService().getReport(report, from, to);
+
+      if (format === 'csv') {
+        const filename = `${report}_${from.toISOString().slice(0, 10)}_${to.toISOString().slice(0, 10)}.csv`;
+        res.set('Content-Type', 'text/csv; charset=utf-8');
+        res.set('Content-Disposition', `attachment; filename="${filename}"`);
+        res.send(toCsv(result.columns, result.rows));
+        return;
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid analytics request', details: error.errors });
+        return;
+      }
+      console.error('[Admin] Error building analytics report:', error);
+      res.status(500).json({ error: 'Failed to build analytics report' });
+    }
+  }
+);
+
+/**
+ * GET /api/admin/moderation/audit
+ * Submission status changes, newest first, filterable by submission, actor,
+ * action, resulting status and date range (admin only)
+ */
+router.get(
+  '/moderation/audit',
+  authenticateUser,
+  requirePermission('audit:read'),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const filter = AuditLogFilterSchema.parse(req.query);
+      const result = await new AuditLogService().listEntries(filter);
+      res.json(result);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid audit log filter', details: error.errors });
+        return;
+      }
+      console.error('[Admin] Error fetching audit log:', error);
+      res.status(500).json({
+        error: 'Failed to fetch audit log',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/admin/webhooks
+ * Subscribe an HTTPS endpoint to submission and entry events (admin only)
+ * The signing secret is only returned in this response
+ */
+router.post(
+  '/webhooks',
+  authenticateUser,
+  requirePermission('webhooks:manage'),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const input = WebhookSubscriptionSchema.parse(req.body);
+      const subscription = await new WebhookService().createSubscription(req.user!.uid, input);
+      res.status(201).json({ success: true, subscription });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid webhook subscription', details: error.errors });
+        return;
+      }
+      if (error.name === 'UnsafeUrlError') {
+        res.status(400).json({ error: 'Invalid webhook subscription', details: error.message });
+        return;
+      }
+      console.error('[Admin] Error creating webhook subscription:', error);
+      res.status(500).json({ error: 'Failed to create webhook subscription' });
+    }
+  }
+);
+
+/**
+ * GET /api/admin/webhooks
+ * List webhook subscriptions (admin only)
+ */
+router.get(
+  '/webhooks',
+  authenticateUser,
+  requirePermission('webhooks:manage'),
+  async (_req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const subscriptions = await new WebhookService().listSubscriptions();
+      res.json({ subscriptions });
+    } catch (error) {
+      console.error('[Admin] Error listing webhook subscriptions:', error);
+      res.status(500).json({ error: 'Failed to list webhook subscriptions' });
+    }
+  }
+);
+
+/**
+ * GET /api/admin/webhooks/dead-letters
+ * Deliveries that exhausted their retries, newest first (admin only)
+ */
+router.get(
+  '/webhooks/dead-letters',
+  authenticateUser,
+  requirePermission('webhooks:manage'),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const filter = DeadLetterFilterSchema.parse(req.query);
+      const result = await new WebhookService().listDeadLetters(filter);
+      res.json(result);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid dead letter filter', details: error.errors });
+        return;
+      }
+      console.error('[Admin] Error fetching webhook dead letters:', error);
+      res.status(500).json({ error: 'Failed to fetch dead letters' });
+    }
+  }
+);
+
+/**
+ * POST /api/admin/webhooks/deliveries/:id/redeliver
+ * Reset a delivery's retries and attempt it immediately (admin only)
+ */
+router.post(
+  '/webhooks/deliveries/:id/redeliver',
+  authenticateUser,
+  requirePermission('webhooks:manage'),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const delivery = await new WebhookService().redeliver(req.params.id);
+
+      if (!delivery) {
+        res.status(404).json({ error: 'Delivery not found' });
+        return;
+      }
+
+      res.json({ success: true, delivery });
+    } catch (error) {
+      console.error('[Admin] Error redelivering webhook:', error);
+      res.status(500).json({ error: 'Failed to redeliver webhook' });
+    }
+  }
+);
+
+/**
+ * PATCH /api/admin/webhooks/:id
+ * Change a subscription's URL, events or description, or pause it (admin only)
+ */
+router.patch(
+  '/webhooks/:id',
+  authenticateUser,
+  requirePermission('webhooks:manage'),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const input = WebhookSubscriptionUpdateSchema.parse(req.body);
+      const subscription = await new WebhookService().updateSubscription(req.params.id, input);
+
+      if (!subscription) {
+        res.status(404).json({ error: 'Webhook subscription not found' });
+        return;
+      }
+
+      res.json({ success: true, subscription });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid webhook subscription', details: error.errors });
+        return;
+      }
+      if (error.name === 'UnsafeUrlError') {
+        res.status(400).json({ error: 'Invalid webhook subscription', details: error.message });
+        return;
+      }
+      console.error('[Admin] Error updating webhook subscription:', error);
+      res.status(500).json({ error: 'Failed to update webhook subscription' });
+    }
+  }
+);
+
+/**
+ * DELETE /api/admin/webhooks/:id
+ * Remove a subscription (admin only)
+ */
+router.delete(
+  '/webhooks/:id',
+  authenticateUser,
+  requirePermission('webhooks:manage'),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const deleted = await new WebhookService().deleteSubscription(req.params.id);
+
+      if (!deleted) {
+        res.status(404).json({ error: 'Webhook subscription not found' });
+        return;
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('[Admin] Error deleting webhook subscription:', error);
+      res.status(500).json({ error: 'Failed to delete webhook subscription' });
+    }
+  }
+);
+
+/**
+ * GET /api/admin/users/:uid/roles
+ * A user's roles and the permissions they grant (admin only)
+ */
+router.get(
+  '/users/:uid/roles',
+  authenticateUser,
+  requirePermission('roles:manage'),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const roles = await new RoleService().getUserRoles(req.params.uid);
+
+      if (!roles) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      res.json(roles);
+    } catch (error) {
+      console.error('[Admin] Error fetching user roles:', error);
+      res.status(500).json({ error: 'Failed to fetch user roles' });
+    }
+  }
+);
+
+/**
+ * POST /api/admin/users/:uid/roles
+ * Grant a role (curator, moderator or admin) via custom claims (admin only)
+ */
+router.post(
+  '/users/:uid/roles',
+  authenticateUser,
+  requirePermission('roles:manage'),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const { role } = RoleGrantSchema.parse(req.body);
+      const roles = await new RoleService().grantRole(req.params.uid, role, req.user!.uid);
+
+      if (!roles) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      res.json({ success: true, ...roles });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid role', details: error.errors });
+        return;
+      }
+      console.error('[Admin] Error granting role:', error);
+      res.status(500).json({ error: 'Failed to grant role' });
+    }
+  }
+);
+
+/**
+ * DELETE /api/admin/users/:uid/roles/:role
+ * Revoke a role (admin only)
+ */
+router.delete(
+  '/users/:uid/roles/:role',
+  authenticateUser,
+  requirePermission('roles:manage'),
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const role = RoleParamSchema.parse(req.params.role);
+      const roles = await new RoleService().revokeRole(req.params.uid, role, req.user!.uid);
+
+      if (!roles) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      res.json({ success: true, ...roles });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid role', details: error.errors });
+        return;
+      }
+      if (error.name === 'RoleError') {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      console.error('[Admin] Error revoking role:', error);
+      res.status(500).json({ error: 'Failed to revoke role' });
+    }
+  }
+);
+
 export default router;
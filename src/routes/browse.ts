@@ -0,0 +1,88 @@
+import { Router, Request, Response } from 'express';
+import { BrowseService } from '../services/browse.js';
+import { PaginationSchema, BrowseEntriesQuerySchema } from '../lib/validation.js';
+import { sendCacheable } from '../lib/http-cache.js';
+
+const router = Router();
+let browseService: BrowseService;
+
+// Initialize service lazily
+function getBrowseService(): BrowseService {
+  if (!browseService) {
+    browseService = new BrowseService();
+  }
+  return browseService;
+}
+
+// Public collections in display order (no auth)
+router.get('/collections', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const params = PaginationSchema.parse(req.query);
+    const result = await getBrowseService().listCollections(params.limit, params.cursor);
+    sendCacheable(req, res, result);
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      res.status(400).json({ error: 'Invalid pagination', details: error.errors });
+      return;
+    }
+    console.error('[Route] Browse collections error:', error);
+    res.status(500).json({ error: 'Failed to fetch collections' });
+  }
+});
+
+// A public or unlisted collection (no auth)
+router.get('/collections/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const collection = await getBrowseService().getCollection(req.params.id);
+
+    if (!collection) {
+      res.status(404).json({ error: 'Collection not found' });
+      return;
+    }
+
+    sendCacheable(req, res, collection);
+  } catch (error: any) {
+    console.error('[Route] Browse collection error:', error);
+    res.status(500).json({ error: 'Failed to fetch collection' });
+  }
+});
+
+// A collection's entries in curated order (no auth)
+router.get('/collections/:id/entries', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const params = PaginationSchema.parse(req.query);
+    const result = await getBrowseService().listCollectionEntries(req.params.id, params.limit, params.cursor);
+
+    if (!result) {
+      res.status(404).json({ error: 'Collection not found' });
+      return;
+    }
+
+    sendCacheable(req, res, result);
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      res.status(400).json({ error: 'Invalid pagination', details: error.errors });
+      return;
+    }
+    console.error('[Route] Browse collection entries error:', error);
+    res.status(500).json({ error: 'Failed to fetch entries' });
+  }
+});
+
+// Search entries across public collections with facet counts (no auth)
+router.get('/entries', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const query = BrowseEntriesQuerySchema.parse(req.query);
+    const result = await getBrowseService().browseEntries(query);
+    sendCacheable(req, res, result);
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      res.status(400).json({ error: 'Invalid browse query', details: error.errors });
+      return;
+    }
+    console.error('[Route] Browse entries error:', error);
+    res.status(500).json({ error: 'Failed to fetch entries' });
+  }
+});
+
+export default router;
@@ -0,0 +1,309 @@
+import { Router } from 'express';
+import { authenticateUser, requirePermission, AuthenticatedRequest } from '../middleware/auth.js';
+import { CollectionService } from '../services/collections.js';
+import {
+  CollectionSchema,
+  CollectionUpdateSchema,
+  CollectionFilterSchema,
+  PaginationSchema,
+  EntryOrderSchema,
+  EntryMoveSchema,
+} from '../lib/validation.js';
+
+const router = Router();
+let collectionService: CollectionService;
+
+// Initialize service lazily
+function getCollectionService(): CollectionService {
+  if (!collectionService) {
+    collectionService = new CollectionService();
+  }
+  return collectionService;
+}
+
+// Create a collection
+router.post(
+  '/curation/collections',
+  authenticateUser,
+  requirePermission('collections:manage'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const input = CollectionSchema.parse(req.body);
+      const collection = await getCollectionService().createCollection(req.user!.uid, input);
+      res.status(201).json(collection);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid collection data', details: error.errors });
+        return;
+      }
+      if (error.name === 'CollectionError') {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      console.error('[Route] Create collection error:', error);
+      res.status(500).json({ error: 'Failed to create collection' });
+    }
+  }
+);
+
+// List all collections in display order, including hidden ones
+router.get(
+  '/curation/collections',
+  authenticateUser,
+  requirePermission('collections:manage'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const params = CollectionFilterSchema.parse(req.query);
+      const result = await getCollectionService().listCollections(params);
+      res.json(result);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid collection filter', details: error.errors });
+        return;
+      }
+      console.error('[Route] List collections error:', error);
+      res.status(500).json({ error: 'Failed to fetch collections' });
+    }
+  }
+);
+
+// Get a collection
+router.get(
+  '/curation/collections/:id',
+  authenticateUser,
+  requirePermission('collections:manage'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const collection = await getCollectionService().getCollection(req.params.id);
+
+      if (!collection) {
+        res.status(404).json({ error: 'Collection not found' });
+        return;
+      }
+
+      res.json(collection);
+    } catch (error: any) {
+      console.error('[Route] Get collection error:', error);
+      res.status(500).json({ error: 'Failed to fetch collection' });
+    }
+  }
+);
+
+// Update title, cover, description, position, visibility or active window
+router.patch(
+  '/curation/collections/:id',
+  authenticateUser,
+  requirePermission('collections:manage'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const input = CollectionUpdateSchema.parse(req.body);
+      const collection = await getCollectionService().updateCollection(req.params.id, req.user!.uid, input);
+
+      if (!collection) {
+        res.status(404).json({ error: 'Collection not found' });
+        return;
+      }
+
+      res.json(collection);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid collection data', details: error.errors });
+        return;
+      }
+      if (error.name === 'CollectionError') {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      console.error('[Route] Update collection error:', error);
+      res.status(500).json({ error: 'Failed to update collection' });
+    }
+  }
+);
+
+// Delete an empty collection
+router.delete(
+  '/curation/collections/:id',
+  authenticateUser,
+  requirePermission('collections:manage'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const deleted = await getCollectionService().deleteCollection(req.params.id, req.user!.uid);
+
+      if (!deleted) {
+        res.status(404).json({ error: 'Collection not found' });
+        return;
+      }
+
+      res.json({ deleted: true });
+    } catch (error: any) {
+      if (error.name === 'CollectionError') {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      console.error('[Route] Delete collection error:', error);
+      res.status(500).json({ error: 'Failed to delete collection' });
+    }
+  }
+);
+
+// List a collection's entries, pinned first
+router.get(
+  '/curation/collections/:id/entries',
+  authenticateUser,
+  requirePermission('collections:manage'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const params = PaginationSchema.parse(req.query);
+      const result = await getCollectionService().listEntries(req.params.id, params.limit, params.cursor);
+
+      if (!result) {
+        res.status(404).json({ error: 'Collection not found' });
+        return;
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid pagination', details: error.errors });
+        return;
+      }
+      console.error('[Route] List collection entries error:', error);
+      res.status(500).json({ error: 'Failed to fetch entries' });
+    }
+  }
+);
+
+// Reorder entries within a collection
+router.put(
+  '/curation/collections/:id/entries/order',
+  authenticateUser,
+  requirePermission('collections:manage'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const input = EntryOrderSchema.parse(req.body);
+      const entries = await getCollectionService().reorderEntries(req.params.id, req.user!.uid, input.entryIds);
+
+      if (!entries) {
+        res.status(404).json({ error: 'Collection not found' });
+        return;
+      }
+
+      res.json({ entries });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid entry order', details: error.errors });
+        return;
+      }
+      if (error.name === 'CollectionError') {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      console.error('[Route] Reorder entries error:', error);
+      res.status(500).json({ error: 'Failed to reorder entries' });
+    }
+  }
+);
+
+// Move an entry to another collection
+router.post(
+  '/curation/collections/:id/entries/:entryId/move',
+  authenticateUser,
+  requirePermission('collections:manage'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const input = EntryMoveSchema.parse(req.body);
+      const entry = await getCollectionService().moveEntry(
+        req.params.id,
+        req.params.entryId,
+        req.user!.uid,
+        input.toCollectionId
+      );
+
+      if (!entry) {
+        res.status(404).json({ error: 'Entry not found' });
+        return;
+      }
+
+      res.json(entry);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid move request', details: error.errors });
+        return;
+      }
+      if (error.name === 'CollectionError') {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      console.error('[Route] Move entry error:', error);
+      res.status(500).json({ error: 'Failed to move entry' });
+    }
+  }
+);
+
+// Feature an entry at the top of its collection
+router.post(
+  '/curation/collections/:id/entries/:entryId/pin',
+  authenticateUser,
+  requirePermission('collections:manage'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const entry = await getCollectionService().setPinned(req.params.id, req.params.entryId, req.user!.uid, true);
+
+      if (!entry) {
+        res.status(404).json({ error: 'Entry not found' });
+        return;
+      }
+
+      res.json(entry);
+    } catch (error: any) {
+      console.error('[Route] Pin entry error:', error);
+      res.status(500).json({ error: 'Failed to pin entry' });
+    }
+  }
+);
+
+// Unpin an entry
+router.delete(
+  '/curation/collections/:id/entries/:entryId/pin',
+  authenticateUser,
+  requirePermission('collections:manage'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const entry = await getCollectionService().setPinned(req.params.id, req.params.entryId, req.user!.uid, false);
+
+      if (!entry) {
+        res.status(404).json({ error: 'Entry not found' });
+        return;
+      }
+
+      res.json(entry);
+    } catch (error: any) {
+      console.error('[Route] Unpin entry error:', error);
+      res.status(500).json({ error: 'Failed to unpin entry' });
+    }
+  }
+);
+
+// Remove an entry from Explore
+router.delete(
+  '/curation/collections/:id/entries/:entryId',
+  authenticateUser,
+  requirePermission('collections:manage'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const removed = await getCollectionService().removeEntry(req.params.id, req.params.entryId, req.user!.uid);
+
+      if (!removed) {
+        res.status(404).json({ error: 'Entry not found' });
+        return;
+      }
+
+      res.json({ removed: true });
+    } catch (error: any) {
+      console.error('[Route] Remove entry error:', error);
+      res.status(500).json({ error: 'Failed to remove entry' });
+    }
+  }
+);
+
+export default router;
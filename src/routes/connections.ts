@@ -0,0 +1,167 @@
+import { Router } from 'express';
+import { authenticateUser, requirePermission, AuthenticatedRequest } from '../middleware/auth.js';
+import { rateLimitImports, refundImportPoints } from '../middleware/rate-limit.js';
+import { ExternalConnectionService } from '../services/external-connections.js';
+import {
+  ExternalConnectionSchema,
+  ExternalPlatformSchema,
+  ExternalImportSchema,
+} from '../lib/validation.js';
+
+const router = Router();
+let connectionService: ExternalConnectionService;
+
+// Initialize service lazily
+function getConnectionService(): ExternalConnectionService {
+  if (!connectionService) {
+    connectionService = new ExternalConnectionService();
+  }
+  return connectionService;
+}
+
+// List connected accounts
+router.get(
+  '/connections',
+  authenticateUser,
+  requirePermission('connections:manage'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const connections = await getConnectionService().listConnections(req.user!.uid);
+      res.json({ connections });
+    } catch (error: any) {
+      console.error('[Route] List connections error:', error);
+      res.status(500).json({ error: 'Failed to fetch connections' });
+    }
+  }
+);
+
+// Connect an account (exchange OAuth code obtained by the app)
+router.post(
+  '/connections',
+  authenticateUser,
+  requirePermission('connections:manage'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const input = ExternalConnectionSchema.parse(req.body);
+      const connection = await getConnectionService().connect(
+        req.user!.uid,
+        input.platform,
+        input.authCode
+      );
+      res.status(201).json({ connection });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid connection data', details: error.errors });
+        return;
+      }
+      if (error.name === 'ExternalProviderError') {
+        res.status(502).json({ error: error.message });
+        return;
+      }
+      console.error('[Route] Connect account error:', error);
+      res.status(500).json({ error: 'Failed to connect account' });
+    }
+  }
+);
+
+// Disconnect an account
+router.delete(
+  '/connections/:platform',
+  authenticateUser,
+  requirePermission('connections:manage'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const platform = ExternalPlatformSchema.parse(req.params.platform);
+      const success = await getConnectionService().disconnect(req.user!.uid, platform);
+
+      if (!success) {
+        res.status(404).json({ error: 'Connection not found' });
+        return;
+      }
+
+      res.json({ disconnected: true });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Unsupported platform', details: error.errors });
+        return;
+      }
+      console.error('[Route] Disconnect account error:', error);
+      res.status(500).json({ error: 'Failed to disconnect account' });
+    }
+  }
+);
+
+// List recent posts from a connected account
+router.get(
+  '/connections/:platform/posts',
+  authenticateUser,
+  requirePermission('connections:manage'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const platform = ExternalPlatformSchema.parse(req.params.platform);
+      const posts = await getConnectionService().listRecentPosts(req.user!.uid, platform);
+
+      if (!posts) {
+        res.status(404).json({ error: 'Connection not found' });
+        return;
+      }
+
+      res.json({ posts });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Unsupported platform', details: error.errors });
+        return;
+      }
+      if (error.name === 'ExternalProviderError') {
+        res.status(502).json({ error: error.message });
+        return;
+      }
+      console.error('[Route] List external posts error:', error);
+      res.status(500).json({ error: 'Failed to fetch posts' });
+    }
+  }
+);
+
+// Import selected posts as submissions
+router.post(
+  '/connections/:platform/import',
+  authenticateUser,
+  requirePermission('submissions:create'),
+  rateLimitImports,
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const platform = ExternalPlatformSchema.parse(req.params.platform);
+      const input = ExternalImportSchema.parse(req.body);
+      const results = await getConnectionService().importPosts(req.user!.uid, platform, input);
+
+      if (!results) {
+        await refundImportPoints(req, res, 0);
+        res.status(404).json({ error: 'Connection not found' });
+        return;
+      }
+
+      const imported = results.filter(r => r.submissionId).length;
+      await refundImportPoints(req, res, imported);
+
+      res.status(201).json({
+        results,
+        imported,
+        estimatedReviewTime: '24-48 hours',
+      });
+    } catch (error: any) {
+      await refundImportPoints(req, res, 0);
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid import data', details: error.errors });
+        return;
+      }
+      if (error.name === 'ExternalProviderError') {
+        res.status(502).json({ error: error.message });
+        return;
+      }
+      console.error('[Route] Import posts error:', error);
+      res.status(500).json({ error: 'Failed to import posts' });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,70 @@
+import { Router } from 'express';
+import { authenticateUser, requirePermission, AuthenticatedRequest } from '../middleware/auth.js';
+import { EngagementService } from '../services/engagement.js';
+import { EngagementSchema, EngagementBatchSchema } from '../lib/validation.js';
+
+const router = Router();
+let engagementService: EngagementService;
+
+// Initialize service lazily
+function getEngagementService(): EngagementService {
+  if (!engagementService) {
+    engagementService = new EngagementService();
+  }
+  return engagementService;
+}
+
+// Record a single engagement event
+router.post(
+  '/engagement',
+  authenticateUser,
+  requirePermission('engagement:record'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const input = EngagementSchema.parse(req.body);
+      const result = await getEngagementService().recordEvent(req.user!.uid, input);
+
+      if (result.error) {
+        res.status(404).json({ error: result.error });
+        return;
+      }
+
+      res.status(201).json({ recorded: true, counted: result.counted });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid engagement data', details: error.errors });
+        return;
+      }
+      console.error('[Route] Record engagement error:', error);
+      res.status(500).json({ error: 'Failed to record engagement' });
+    }
+  }
+);
+
+// Record a batch of engagement events (mobile clients)
+router.post(
+  '/engagement/batch',
+  authenticateUser,
+  requirePermission('engagement:record'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const input = EngagementBatchSchema.parse(req.body);
+      const results = await getEngagementService().recordBatch(req.user!.uid, input.events);
+
+      res.status(201).json({
+        results,
+        counted: results.filter(r => r.counted).length,
+        failed: results.filter(r => r.error).length,
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid engagement data', details: error.errors });
+        return;
+      }
+      console.error('[Route] Record engagement batch error:', error);
+      res.status(500).json({ error: 'Failed to record engagement' });
+    }
+  }
+);
+
+export default router;
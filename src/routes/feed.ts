@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import { optionalAuth, AuthenticatedRequest } from '../middleware/auth.js';
+import { FeedService } from '../services/feed.js';
+import { PaginationSchema } from '../lib/validation.js';
+
+const router = Router();
+let feedService: FeedService;
+
+// Initialize service lazily
+function getFeedService(): FeedService {
+  if (!feedService) {
+    feedService = new FeedService();
+  }
+  return feedService;
+}
+
+// Explore feed (personalized when signed in, trending otherwise)
+router.get(
+  '/feed',
+  optionalAuth,
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const params = PaginationSchema.parse(req.query);
+      const result = await getFeedService().getFeed(req.user?.uid, params.limit, params.cursor);
+      res.json(result);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid feed query', details: error.errors });
+        return;
+      }
+      console.error('[Route] Get feed error:', error);
+      res.status(500).json({ error: 'Failed to fetch feed' });
+    }
+  }
+);
+
+export default router;
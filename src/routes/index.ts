@@ -1,5 +1,13 @@
 import { Router } from 'express';
 import submissionsRouter from './submissions.js';
+import engagementRouter from './engagement.js';
+import connectionsRouter from './connections.js';
+import feedRouter from './feed.js';
+import mediaRouter from './media.js';
+import notificationsRouter from './notifications.js';
+import quotaRouter from './quota.js';
+import collectionsRouter from './collections.js';
+import browseRouter from './browse.js';
 import adminRouter from './admin.js';
 import internalRouter from './internal.js';
 
@@ -12,6 +20,14 @@ router.get('/health', (_req, res) => {
 
 // Mount routes
 router.use('/explore', submissionsRouter);
+router.use('/explore', engagementRouter);
+router.use('/explore', connectionsRouter);
+router.use('/explore', feedRouter);
+router.use('/explore', mediaRouter);
+router.use('/explore', notificationsRouter);
+router.use('/explore', quotaRouter);
+router.use('/explore', collectionsRouter);
+router.use('/explore', browseRouter);
 router.use('/admin', adminRouter);
 router.use('/internal', internalRouter);
 
@@ -1,21 +1,39 @@
 import { Router, Request, Response } from 'express';
-import { moderateSubmission, moderateImage } from '../services/moderation.js';
+import {
+  moderateSubmission,
+  moderateImage,
+  ModerationUnavailableError,
+} from '../services/moderation.js';
+import { authenticateInternal, InternalRequest } from '../middleware/internal-auth.js';
+import { recomputeTrendScores } from '../services/trends.js';
+import { ModerationCostService } from '../services/moderation-costs.js';
+import { getModerationProvider } from '../services/moderation-providers.js';
+import { ModerationRetryService } from '../services/moderation-retry.js';
+import { NotificationService } from '../services/notifications.js';
+import { WebhookService } from '../services/webhooks.js';
+import { BrowseService } from '../services/browse.js';
+import {
+  ModerationRetrySchema,
+  NotificationDispatchSchema,
+  WebhookDispatchSchema,
+} from '../lib/validation.js';
 
 const router = Router();
 
 /**
  * Internal API for moderation service - used by other backend services
- * No auth required as this should only be called internally
+ * Callers authenticate with a Google OIDC token or an HMAC signature
  */
+router.use(authenticateInternal);
 
 /**
  * POST /api/internal/moderate
- * Run Vision API SafeSearch moderation on media URLs
- * Body: { userId: string, mediaUrls: string[] }
+ * Run image and text moderation on media URLs and optional text fields
+ * Body: { userId: string, mediaUrls: string[], title?, description?, tags?, materials? }
  */
 router.post('/moderate', async (req: Request, res: Response): Promise<void> => {
   try {
-    const { userId, mediaUrls } = req.body;
+    const { userId, mediaUrls, title, description, tags, materials } = req.body;
 
     if (!userId || typeof userId !== 'string') {
       res.status(400).json({ error: 'userId is required and must be a string' });
@@ -35,13 +53,22 @@ router.post('/moderate', async (req: Request, res: Response): Promise<void> => {
 
     console.log(`[Internal] Moderating ${mediaUrls.length} media URLs for user ${userId}`);
 
-    const result = await moderateSubmission(userId, mediaUrls);
+    const result = await moderateSubmission(userId, mediaUrls, {
+      title: typeof title === 'string' ? title : undefined,
+      description: typeof description === 'string' ? description : undefined,
+      tags: Array.isArray(tags) ? tags.filter(t => typeof t === 'string') : undefined,
+      materials: Array.isArray(materials) ? materials.filter(m => typeof m === 'string') : undefined,
+    }, { callerId: (req as InternalRequest).caller?.id });
 
     res.json({
       success: true,
       result,
     });
   } catch (error) {
+    if (error instanceof ModerationUnavailableError) {
+      res.status(503).json({ error: error.message });
+      return;
+    }
     console.error('[Internal] Error in moderation:', error);
     res.status(500).json({
       error: 'Moderation failed',
@@ -64,15 +91,36 @@ router.post('/moderate-single', async (req: Request, res: Response): Promise<voi
       return;
     }
 
+    // Nothing to degrade to for a single image, so refuse over budget
+    const costService = new ModerationCostService();
+    const budget = await costService.getBudgetStatus();
+    if (budget.exceeded) {
+      res.status(503).json({ error: 'Monthly moderation budget reached' });
+      return;
+    }
+
     console.log(`[Internal] Moderating single image: ${imageUrl}`);
 
     const result = await moderateImage(imageUrl);
+    const provider = getModerationProvider();
+
+    await costService.recordUsage({
+      userId: null,
+      callerId: (req as InternalRequest).caller?.id,
+      imageCount: 1,
+      estimatedCost: result.metadata?.estimatedCost ?? provider.costPerImage,
+      provider: provider.name,
+    }).catch(error => console.error('[Internal] Failed to track cost:', error));
 
     res.json({
       success: true,
       result,
     });
   } catch (error) {
+    if (error instanceof ModerationUnavailableError) {
+      res.status(503).json({ error: error.message });
+      return;
+    }
     console.error('[Internal] Error in single image moderation:', error);
     res.status(500).json({
       error: 'Moderation failed',
@@ -81,4 +129,129 @@ router.post('/moderate-single', async (req: Request, res: Response): Promise<voi
   }
 });
 
+/**
+ * POST /api/internal/trends/recompute
+ * Recompute trendScore for all explore entries from recent engagement
+ * Intended to be triggered by Cloud Scheduler
+ */
+router.post('/trends/recompute', async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await recomputeTrendScores();
+
+    res.json({
+      success: true,
+      result,
+    });
+  } catch (error) {
+    console.error('[Internal] Error recomputing trend scores:', error);
+    res.status(500).json({
+      error: 'Trend recompute failed',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/internal/browse/rebuild-index
+ * Rebuild the facet index used by /api/explore/browse/entries
+ * Intended to be triggered by Cloud Scheduler
+ */
+router.post('/browse/rebuild-index', async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await new BrowseService().rebuildIndex();
+
+    res.json({
+      success: true,
+      result,
+    });
+  } catch (error) {
+    console.error('[Internal] Error rebuilding browse index:', error);
+    res.status(500).json({
+      error: 'Browse index rebuild failed',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/internal/moderation/retry
+ * Re-run moderation for submissions stuck in moderation_pending
+ * Body: { limit?: number }
+ */
+router.post('/moderation/retry', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { limit } = ModerationRetrySchema.parse(req.body || {});
+    const result = await new ModerationRetryService().processDue(limit);
+
+    res.json({
+      success: true,
+      result,
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      res.status(400).json({ error: 'Invalid retry request', details: error.errors });
+      return;
+    }
+    console.error('[Internal] Error processing moderation retries:', error);
+    res.status(500).json({
+      error: 'Moderation retry failed',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/internal/notifications/dispatch
+ * Deliver pending submitter notifications from the outbox
+ * Body: { limit?: number }
+ */
+router.post('/notifications/dispatch', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { limit } = NotificationDispatchSchema.parse(req.body || {});
+    const result = await new NotificationService().dispatchDue(limit);
+
+    res.json({
+      success: true,
+      result,
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      res.status(400).json({ error: 'Invalid dispatch request', details: error.errors });
+      return;
+    }
+    console.error('[Internal] Error dispatching notifications:', error);
+    res.status(500).json({
+      error: 'Notification dispatch failed',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/internal/webhooks/dispatch
+ * Fan out new webhook events and attempt due deliveries
+ * Body: { limit?: number }
+ */
+router.post('/webhooks/dispatch', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { limit } = WebhookDispatchSchema.parse(req.body || {});
+    const result = await new WebhookService().dispatchDue(limit);
+
+    res.json({
+      success: true,
+      result,
+    });
+  } catch (error: any) {
+    if (error.name === 'ZodError') {
+      res.status(400).json({ error: 'Invalid dispatch request', details: error.errors });
+      return;
+    }
+    console.error('[Internal] Error dispatching webhooks:', error);
+    res.status(500).json({
+      error: 'Webhook dispatch failed',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
 export default router;
@@ -0,0 +1,93 @@
+import { Router } from 'express';
+import { authenticateUser, requirePermission, AuthenticatedRequest } from '../middleware/auth.js';
+import { MediaService } from '../services/media.js';
+import { MediaUploadSchema } from '../lib/validation.js';
+
+const router = Router();
+let mediaService: MediaService;
+
+// Initialize service lazily
+function getMediaService(): MediaService {
+  if (!mediaService) {
+    mediaService = new MediaService();
+  }
+  return mediaService;
+}
+
+// Start an upload session (returns signed upload URLs)
+router.post(
+  '/media/uploads',
+  authenticateUser,
+  requirePermission('media:upload'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const input = MediaUploadSchema.parse(req.body);
+      const session = await getMediaService().createUploadSession(req.user!.uid, input);
+      res.status(201).json(session);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid upload request', details: error.errors });
+        return;
+      }
+      if (error.name === 'MediaError') {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      console.error('[Route] Create upload session error:', error);
+      res.status(500).json({ error: 'Failed to create upload session' });
+    }
+  }
+);
+
+// Finish an upload session (validates files and generates variants)
+router.post(
+  '/media/uploads/:sessionId/complete',
+  authenticateUser,
+  requirePermission('media:upload'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const media = await getMediaService().completeUploadSession(
+        req.user!.uid,
+        req.params.sessionId
+      );
+
+      if (!media) {
+        res.status(404).json({ error: 'Upload session not found' });
+        return;
+      }
+
+      res.json({ media });
+    } catch (error: any) {
+      if (error.name === 'MediaError') {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      console.error('[Route] Complete upload session error:', error);
+      res.status(500).json({ error: 'Failed to process uploads' });
+    }
+  }
+);
+
+// Get a media item
+router.get(
+  '/media/:id',
+  authenticateUser,
+  requirePermission('media:upload'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const media = await getMediaService().getMedia(req.params.id, req.user!.uid);
+
+      if (!media) {
+        res.status(404).json({ error: 'Media not found' });
+        return;
+      }
+
+      res.json({ media });
+    } catch (error: any) {
+      console.error('[Route] Get media error:', error);
+      res.status(500).json({ error: 'Failed to fetch media' });
+    }
+  }
+);
+
+export default router;
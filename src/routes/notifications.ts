@@ -0,0 +1,124 @@
+import { Router } from 'express';
+import { authenticateUser, requirePermission, AuthenticatedRequest } from '../middleware/auth.js';
+import { NotificationService } from '../services/notifications.js';
+import { NotificationFilterSchema, DeviceRegistrationSchema } from '../lib/validation.js';
+
+const router = Router();
+let notificationService: NotificationService;
+
+// Initialize service lazily
+function getNotificationService(): NotificationService {
+  if (!notificationService) {
+    notificationService = new NotificationService();
+  }
+  return notificationService;
+}
+
+// List my notifications, newest first
+router.get(
+  '/notifications',
+  authenticateUser,
+  requirePermission('notifications:manage'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const params = NotificationFilterSchema.parse(req.query);
+      const result = await getNotificationService().listNotifications(req.user!.uid, params);
+      res.json(result);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid notification filter', details: error.errors });
+        return;
+      }
+      console.error('[Route] List notifications error:', error);
+      res.status(500).json({ error: 'Failed to fetch notifications' });
+    }
+  }
+);
+
+// Mark all notifications as read
+router.post(
+  '/notifications/read-all',
+  authenticateUser,
+  requirePermission('notifications:manage'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const updated = await getNotificationService().markAllRead(req.user!.uid);
+      res.json({ updated });
+    } catch (error: any) {
+      console.error('[Route] Mark all notifications read error:', error);
+      res.status(500).json({ error: 'Failed to mark notifications as read' });
+    }
+  }
+);
+
+// Mark a notification as read
+router.post(
+  '/notifications/:id/read',
+  authenticateUser,
+  requirePermission('notifications:manage'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const found = await getNotificationService().markRead(req.user!.uid, req.params.id);
+
+      if (!found) {
+        res.status(404).json({ error: 'Notification not found' });
+        return;
+      }
+
+      res.json({ read: true });
+    } catch (error: any) {
+      console.error('[Route] Mark notification read error:', error);
+      res.status(500).json({ error: 'Failed to mark notification as read' });
+    }
+  }
+);
+
+// Register a device for push notifications
+router.post(
+  '/notifications/devices',
+  authenticateUser,
+  requirePermission('notifications:manage'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const input = DeviceRegistrationSchema.parse(req.body);
+      await getNotificationService().registerDevice(req.user!.uid, input.token, input.platform);
+      res.status(201).json({ registered: true });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid device registration', details: error.errors });
+        return;
+      }
+      console.error('[Route] Register device error:', error);
+      res.status(500).json({ error: 'Failed to register device' });
+    }
+  }
+);
+
+// Stop push notifications to a device (token in the body, as tokens aren't URL-safe)
+router.delete(
+  '/notifications/devices',
+  authenticateUser,
+  requirePermission('notifications:manage'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const { token } = DeviceRegistrationSchema.pick({ token: true }).parse(req.body);
+      const removed = await getNotificationService().removeDevice(req.user!.uid, token);
+
+      if (!removed) {
+        res.status(404).json({ error: 'Device not registered' });
+        return;
+      }
+
+      res.json({ removed: true });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid device token', details: error.errors });
+        return;
+      }
+      console.error('[Route] Remove device error:', error);
+      res.status(500).json({ error: 'Failed to remove device' });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { authenticateUser, requirePermission, AuthenticatedRequest } from '../middleware/auth.js';
+import { getQuota } from '../middleware/rate-limit.js';
+
+const router = Router();
+
+// My rate limit tier and remaining API and submission quota
+router.get(
+  '/quota',
+  authenticateUser,
+  requirePermission('quota:read'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const quota = await getQuota(req.user!);
+      res.json(quota);
+    } catch (error) {
+      console.error('[Route] Get quota error:', error);
+      res.status(500).json({ error: 'Failed to fetch quota' });
+    }
+  }
+);
+
+export default router;
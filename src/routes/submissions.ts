@@ -1,16 +1,28 @@
 import { Router } from 'express';
-import { authenticateUser, requireRole, AuthenticatedRequest } from '../middleware/auth.js';
+import { authenticateUser, requirePermission, AuthenticatedRequest } from '../middleware/auth.js';
 import { rateLimitSubmissions } from '../middleware/rate-limit.js';
 import { SubmissionService } from '../services/submissions.js';
+import { ModerationRetryService } from '../services/moderation-retry.js';
+import { AuditLogService } from '../services/audit-log.js';
+import { AppealService } from '../services/appeals.js';
+import { ModerationBatchService } from '../services/moderation-batches.js';
 import {
   SubmissionSchema,
+  SubmissionUpdateSchema,
   SubmissionFilterSchema,
+  ModerationQueueQuerySchema,
   ApprovalSchema,
   RejectionSchema,
+  ClaimSchema,
+  BulkModerationSchema,
+  AppealSchema,
+  AppealFilterSchema,
+  AppealResolutionSchema,
 } from '../lib/validation.js';
 
 const router = Router();
 let submissionService: SubmissionService;
+let appealService: AppealService;
 
 // Initialize service lazily
 function getSubmissionService(): SubmissionService {
@@ -20,10 +32,18 @@ function getSubmissionService(): SubmissionService {
   return submissionService;
 }
 
+function getAppealService(): AppealService {
+  if (!appealService) {
+    appealService = new AppealService();
+  }
+  return appealService;
+}
+
 // Create submission (user-facing)
 router.post(
   '/submissions',
   authenticateUser,
+  requirePermission('submissions:create'),
   rateLimitSubmissions,
   async (req: AuthenticatedRequest, res): Promise<void> => {
     try {
@@ -39,6 +59,10 @@ router.post(
         res.status(400).json({ error: 'Invalid submission data', details: error.errors });
         return;
       }
+      if (error.name === 'MediaError') {
+        res.status(400).json({ error: error.message });
+        return;
+      }
       console.error('[Route] Create submission error:', error);
       console.error('[Route] Error stack:', error.stack);
       console.error('[Route] Error details:', JSON.stringify(error, null, 2));
@@ -54,6 +78,7 @@ router.post(
 router.get(
   '/submissions/mine',
   authenticateUser,
+  requirePermission('submissions:manage_own'),
   async (req: AuthenticatedRequest, res): Promise<void> => {
     try {
       const params = SubmissionFilterSchema.parse(req.query);
@@ -71,10 +96,53 @@ router.get(
   }
 );
 
+// Edit and resubmit a rejected or pending submission
+router.patch(
+  '/submissions/:id',
+  authenticateUser,
+  requirePermission('submissions:manage_own'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const input = SubmissionUpdateSchema.parse(req.body);
+      const result = await getSubmissionService().updateSubmission(
+        req.params.id,
+        req.user!.uid,
+        input
+      );
+
+      if (!result) {
+        res.status(404).json({ error: 'Submission not found or not owned by user' });
+        return;
+      }
+
+      res.json({
+        ...result,
+        estimatedReviewTime: '24-48 hours',
+      });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid submission data', details: error.errors });
+        return;
+      }
+      if (error.name === 'MediaError') {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      if (error.name === 'SubmissionUpdateError' || error.name === 'SubmissionConflictError') {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      console.error('[Route] Update submission error:', error);
+      res.status(500).json({ error: 'Failed to update submission' });
+    }
+  }
+);
+
 // Withdraw submission
 router.post(
   '/submissions/:id/withdraw',
   authenticateUser,
+  requirePermission('submissions:manage_own'),
   async (req: AuthenticatedRequest, res): Promise<void> => {
     try {
       const success = await getSubmissionService().withdrawSubmission(
@@ -89,37 +157,342 @@ router.post(
       
       res.json({ withdrawn: true });
     } catch (error: any) {
+      if (error.name === 'SubmissionConflictError') {
+        res.status(409).json({ error: error.message });
+        return;
+      }
       console.error('[Route] Withdraw submission error:', error);
       res.status(500).json({ error: 'Failed to withdraw submission' });
     }
   }
 );
 
-// Get moderation queue (admin/moderator only)
+// Appeal a rejected or flagged submission
+router.post(
+  '/submissions/:id/appeal',
+  authenticateUser,
+  requirePermission('submissions:manage_own'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const input = AppealSchema.parse(req.body);
+      const result = await getAppealService().createAppeal(
+        req.params.id,
+        req.user!.uid,
+        input.message
+      );
+
+      if (!result) {
+        res.status(404).json({ error: 'Submission not found or not owned by user' });
+        return;
+      }
+
+      res.status(201).json(result);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid appeal data', details: error.errors });
+        return;
+      }
+      if (error.name === 'AppealError') {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      console.error('[Route] Create appeal error:', error);
+      res.status(500).json({ error: 'Failed to create appeal' });
+    }
+  }
+);
+
+// Get moderation queue with per-status counts (admin/moderator only)
 router.get(
   '/moderation/queue',
   authenticateUser,
-  requireRole('moderator'),
+  requirePermission('moderation:review'),
   async (req: AuthenticatedRequest, res): Promise<void> => {
     try {
-      const { filter, limit } = req.query;
-      const queue = await getSubmissionService().getModerationQueue(
-        filter as string | undefined,
-        limit ? Number(limit) : 50
-      );
-      res.json({ queue });
+      const params = ModerationQueueQuerySchema.parse(req.query);
+      const [result, counts] = await Promise.all([
+        getSubmissionService().getModerationQueue(params, req.user!.uid),
+        getSubmissionService().getStatusCounts(),
+      ]);
+      res.json({ queue: result.submissions, nextCursor: result.nextCursor, counts });
     } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid queue query', details: error.errors });
+        return;
+      }
       console.error('[Route] Get moderation queue error:', error);
       res.status(500).json({ error: 'Failed to fetch moderation queue' });
     }
   }
 );
 
+// Claim the next unclaimed queue items (moderator only)
+router.post(
+  '/moderation/claim',
+  authenticateUser,
+  requirePermission('moderation:review'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const input = ClaimSchema.parse(req.body);
+      const claimed = await getSubmissionService().claimNext(req.user!.uid, input.limit);
+      res.json({ claimed });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid claim request', details: error.errors });
+        return;
+      }
+      console.error('[Route] Claim submissions error:', error);
+      res.status(500).json({ error: 'Failed to claim submissions' });
+    }
+  }
+);
+
+// Submissions waiting for moderation to be retried (admin/moderator only)
+router.get(
+  '/moderation/retry-queue',
+  authenticateUser,
+  requirePermission('moderation:review'),
+  async (_req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const stats = await new ModerationRetryService().getStats();
+      res.json(stats);
+    } catch (error: any) {
+      console.error('[Route] Get retry queue stats error:', error);
+      res.status(500).json({ error: 'Failed to fetch retry queue stats' });
+    }
+  }
+);
+
+// Status history of a submission (moderator only)
+router.get(
+  '/moderation/:id/history',
+  authenticateUser,
+  requirePermission('moderation:review'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const history = await new AuditLogService().getSubmissionHistory(req.params.id);
+
+      if (!history) {
+        res.status(404).json({ error: 'Submission not found' });
+        return;
+      }
+
+      res.json({ submissionId: req.params.id, history });
+    } catch (error: any) {
+      console.error('[Route] Get submission history error:', error);
+      res.status(500).json({ error: 'Failed to fetch submission history' });
+    }
+  }
+);
+
+// Versions of a submission with the changes between them (moderator only)
+router.get(
+  '/moderation/:id/versions',
+  authenticateUser,
+  requirePermission('moderation:review'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const result = await getSubmissionService().getSubmissionVersions(req.params.id);
+
+      if (!result) {
+        res.status(404).json({ error: 'Submission not found' });
+        return;
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('[Route] Get submission versions error:', error);
+      res.status(500).json({ error: 'Failed to fetch submission versions' });
+    }
+  }
+);
+
+// Appeals queue, excluding appeals against the caller's own decisions (moderator only)
+router.get(
+  '/moderation/appeals',
+  authenticateUser,
+  requirePermission('moderation:appeals'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const params = AppealFilterSchema.parse(req.query);
+      const appeals = await getAppealService().listAppeals(
+        req.user!.uid,
+        params.status,
+        params.limit
+      );
+      res.json({ appeals });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid appeal filter', details: error.errors });
+        return;
+      }
+      console.error('[Route] Get appeals error:', error);
+      res.status(500).json({ error: 'Failed to fetch appeals' });
+    }
+  }
+);
+
+// Uphold or overturn an appeal (moderator only, not the original reviewer)
+router.post(
+  '/moderation/appeals/:id/resolve',
+  authenticateUser,
+  requirePermission('moderation:appeals'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const input = AppealResolutionSchema.parse(req.body);
+      const result = await getAppealService().resolveAppeal(
+        req.params.id,
+        req.user!.uid,
+        input
+      );
+
+      if (!result) {
+        res.status(404).json({ error: 'Appeal not found' });
+        return;
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid appeal resolution', details: error.errors });
+        return;
+      }
+      if (error.name === 'AppealError') {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      console.error('[Route] Resolve appeal error:', error);
+      res.status(500).json({ error: 'Failed to resolve appeal' });
+    }
+  }
+);
+
+// Approve or reject several submissions at once (moderator only)
+router.post(
+  '/moderation/batches',
+  authenticateUser,
+  requirePermission('moderation:bulk'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const input = BulkModerationSchema.parse(req.body);
+      const batch = await new ModerationBatchService().applyBatch(req.user!.uid, input);
+      res.status(201).json(batch);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        res.status(400).json({ error: 'Invalid bulk moderation data', details: error.errors });
+        return;
+      }
+      console.error('[Route] Bulk moderation error:', error);
+      res.status(500).json({ error: 'Failed to apply bulk moderation' });
+    }
+  }
+);
+
+// Get a bulk action and its per-item results (moderator only)
+router.get(
+  '/moderation/batches/:id',
+  authenticateUser,
+  requirePermission('moderation:bulk'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const batch = await new ModerationBatchService().getBatch(req.params.id);
+
+      if (!batch) {
+        res.status(404).json({ error: 'Batch not found' });
+        return;
+      }
+
+      res.json(batch);
+    } catch (error: any) {
+      console.error('[Route] Get moderation batch error:', error);
+      res.status(500).json({ error: 'Failed to fetch moderation batch' });
+    }
+  }
+);
+
+// Undo a bulk action (moderator only)
+router.post(
+  '/moderation/batches/:id/undo',
+  authenticateUser,
+  requirePermission('moderation:bulk'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const batch = await new ModerationBatchService().undoBatch(req.params.id, req.user!.uid);
+
+      if (!batch) {
+        res.status(404).json({ error: 'Batch not found' });
+        return;
+      }
+
+      res.json(batch);
+    } catch (error: any) {
+      if (error.name === 'ModerationBatchError') {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      console.error('[Route] Undo moderation batch error:', error);
+      res.status(500).json({ error: 'Failed to undo moderation batch' });
+    }
+  }
+);
+
+// Claim a submission or extend the caller's claim (moderator only)
+router.post(
+  '/moderation/:id/claim',
+  authenticateUser,
+  requirePermission('moderation:review'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const submission = await getSubmissionService().claimSubmission(req.params.id, req.user!.uid);
+
+      if (!submission) {
+        res.status(404).json({ error: 'Submission not found' });
+        return;
+      }
+
+      res.json({ submission });
+    } catch (error: any) {
+      if (error.name === 'SubmissionConflictError') {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      console.error('[Route] Claim submission error:', error);
+      res.status(500).json({ error: 'Failed to claim submission' });
+    }
+  }
+);
+
+// Release a claimed submission back to the queue (moderator only)
+router.post(
+  '/moderation/:id/release',
+  authenticateUser,
+  requirePermission('moderation:review'),
+  async (req: AuthenticatedRequest, res): Promise<void> => {
+    try {
+      const released = await getSubmissionService().releaseSubmission(req.params.id, req.user!.uid);
+
+      if (!released) {
+        res.status(404).json({ error: 'Submission not found' });
+        return;
+      }
+
+      res.json({ released: true });
+    } catch (error: any) {
+      if (error.name === 'SubmissionConflictError') {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      console.error('[Route] Release submission error:', error);
+      res.status(500).json({ error: 'Failed to release submission' });
+    }
+  }
+);
+
 // Approve submission (moderator only)
 router.post(
   '/moderation/:id/approve',
   authenticateUser,
-  requireRole('moderator'),
+  requirePermission('moderation:review'),
   async (req: AuthenticatedRequest, res): Promise<void> => {
     try {
       const input = ApprovalSchema.parse(req.body);
@@ -129,6 +502,11 @@ router.post(
         input.collectionId,
         input.trendScore
       );
+
+      if (!entryId) {
+        res.status(404).json({ error: 'Submission not found' });
+        return;
+      }
       
       res.json({ entryId, approved: true });
     } catch (error: any) {
@@ -136,6 +514,14 @@ router.post(
         res.status(400).json({ error: 'Invalid approval data', details: error.errors });
         return;
       }
+      if (error.name === 'SubmissionConflictError') {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      if (error.name === 'CollectionNotFoundError') {
+        res.status(400).json({ error: 'Collection not found' });
+        return;
+      }
       console.error('[Route] Approve submission error:', error);
       res.status(500).json({ error: 'Failed to approve submission' });
     }
@@ -146,7 +532,7 @@ router.post(
 router.post(
   '/moderation/:id/reject',
   authenticateUser,
-  requireRole('moderator'),
+  requirePermission('moderation:review'),
   async (req: AuthenticatedRequest, res): Promise<void> => {
     try {
       const input = RejectionSchema.parse(req.body);
@@ -167,6 +553,10 @@ router.post(
         res.status(400).json({ error: 'Invalid rejection data', details: error.errors });
         return;
       }
+      if (error.name === 'SubmissionConflictError') {
+        res.status(409).json({ error: error.message });
+        return;
+      }
       console.error('[Route] Reject submission error:', error);
       res.status(500).json({ error: 'Failed to reject submission' });
     }
@@ -0,0 +1,96 @@
+import dotenv from 'dotenv';
+import admin from 'firebase-admin';
+import { initializeFirebase, getFirestore } from '../lib/firebase.js';
+
+/**
+ * Create collection documents for collections that only exist as an entries
+ * subcollection, and give entries the ordering fields curation relies on
+ * (position, pinned, pinnedAt) plus an accurate entryCount. Collections are then
+ * marked entriesOrdered, so listEntries can sort with a query. Safe to run repeatedly.
+ * Usage: npm run collections:backfill
+ */
+
+dotenv.config();
+initializeFirebase();
+
+const BATCH_SIZE = 400;
+
+async function backfillCollections() {
+  const db = getFirestore();
+  const result = { collectionsCreated: 0, entriesUpdated: 0 };
+
+  // listDocuments() includes parents that have subcollections but no data
+  const collectionRefs = await db.collection('explore_collections').listDocuments();
+
+  for (const collectionRef of collectionRefs) {
+    const [collectionDoc, entries] = await Promise.all([
+      collectionRef.get(),
+      collectionRef.collection('entries').select('position', 'pinned', 'pinnedAt', 'createdAt').get(),
+    ]);
+
+    let batch = db.batch();
+    let pending = 0;
+
+    for (const entry of entries.docs) {
+      const data = entry.data();
+      // Entries without pinnedAt would drop out of the curated order
+      if (typeof data.position === 'number' && typeof data.pinned === 'boolean' && data.pinnedAt !== undefined) continue;
+
+      batch.update(entry.ref, {
+        position: data.position ?? -(data.createdAt?.toMillis() ?? Date.now()),
+        pinned: data.pinned ?? false,
+        pinnedAt: data.pinned ? data.pinnedAt ?? null : null,
+      });
+      result.entriesUpdated++;
+
+      if (++pending === BATCH_SIZE) {
+        await batch.commit();
+        batch = db.batch();
+        pending = 0;
+      }
+    }
+
+    if (!collectionDoc.exists) {
+      batch.set(collectionRef, {
+        title: collectionRef.id,
+        description: null,
+        coverUrl: null,
+        visibility: 'public',
+        position: 0,
+        activeFrom: null,
+        activeUntil: null,
+        entryCount: entries.size,
+        entriesOrdered: true,
+        createdBy: null,
+        updatedBy: null,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      result.collectionsCreated++;
+    } else {
+      // Collections predating curation are live; keep them that way
+      const data = collectionDoc.data()!;
+      batch.update(collectionRef, {
+        title: data.title ?? collectionRef.id,
+        visibility: data.visibility ?? 'public',
+        position: data.position ?? 0,
+        entryCount: entries.size,
+        entriesOrdered: true,
+      });
+    }
+
+    await batch.commit();
+  }
+
+  return { ...result, collections: collectionRefs.length };
+}
+
+backfillCollections()
+  .then((result) => {
+    console.log('[Collections] Backfill complete:', result);
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('[Collections] Backfill failed:', error);
+    process.exit(1);
+  });
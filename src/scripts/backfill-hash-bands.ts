@@ -0,0 +1,67 @@
+import dotenv from 'dotenv';
+import admin from 'firebase-admin';
+import { initializeFirebase, getFirestore } from '../lib/firebase.js';
+import { hashBands } from '../services/duplicates.js';
+
+/**
+ * Recompute imageHashBands from the stored imageHashes on submissions and
+ * entries, after the band layout changed (now four 16-bit bands).
+ * Safe to run repeatedly.
+ * Usage: npm run duplicates:backfill-bands
+ */
+
+dotenv.config();
+initializeFirebase();
+
+const PAGE_SIZE = 400;
+
+async function rebandQuery(query: admin.firestore.Query): Promise<number> {
+  const db = getFirestore();
+  const paged = query.select('imageHashes', 'imageHashBands');
+  let updated = 0;
+  let last: admin.firestore.QueryDocumentSnapshot | undefined;
+
+  do {
+    const page = await (last ? paged.startAfter(last) : paged).limit(PAGE_SIZE).get();
+    const batch = db.batch();
+    let pending = 0;
+
+    for (const doc of page.docs) {
+      const hashes: string[] = doc.data().imageHashes || [];
+      const bands = hashes.flatMap(hashBands);
+      const current: string[] = doc.data().imageHashBands || [];
+
+      if (bands.length === current.length && bands.every((band, i) => band === current[i])) continue;
+
+      batch.update(doc.ref, { imageHashBands: bands });
+      pending++;
+    }
+
+    if (pending > 0) {
+      await batch.commit();
+      updated += pending;
+    }
+    last = page.size === PAGE_SIZE ? page.docs[page.size - 1] : undefined;
+  } while (last);
+
+  return updated;
+}
+
+async function backfillHashBands() {
+  const db = getFirestore();
+
+  return {
+    submissionsUpdated: await rebandQuery(db.collection('explore_submissions')),
+    entriesUpdated: await rebandQuery(db.collectionGroup('entries')),
+  };
+}
+
+backfillHashBands()
+  .then((result) => {
+    console.log('[Duplicates] Band backfill complete:', result);
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('[Duplicates] Band backfill failed:', error);
+    process.exit(1);
+  });
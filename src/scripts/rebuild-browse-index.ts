@@ -0,0 +1,22 @@
+import dotenv from 'dotenv';
+import { initializeFirebase } from '../lib/firebase.js';
+import { BrowseService } from '../services/browse.js';
+
+/**
+ * Build the browse facet index once, e.g. right after deploying, before the
+ * scheduled /api/internal/browse/rebuild-index job first runs.
+ * Usage: npm run browse:rebuild-index
+ */
+
+dotenv.config();
+initializeFirebase();
+
+new BrowseService().rebuildIndex()
+  .then((result) => {
+    console.log('[Browse] Index rebuild complete:', result);
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('[Browse] Index rebuild failed:', error);
+    process.exit(1);
+  });
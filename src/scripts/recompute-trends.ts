@@ -0,0 +1,21 @@
+import dotenv from 'dotenv';
+import { initializeFirebase } from '../lib/firebase.js';
+import { recomputeTrendScores } from '../services/trends.js';
+
+/**
+ * Recompute trendScore for all explore entries
+ * Usage: npm run trends:recompute
+ */
+
+dotenv.config();
+initializeFirebase();
+
+recomputeTrendScores()
+  .then((result) => {
+    console.log('[Trends] Run complete:', result);
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('[Trends] Run failed:', error);
+    process.exit(1);
+  });
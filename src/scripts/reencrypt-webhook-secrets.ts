@@ -0,0 +1,46 @@
+import dotenv from 'dotenv';
+import { initializeFirebase, getFirestore } from '../lib/firebase.js';
+import { encryptSecret, decryptSecret } from '../lib/crypto.js';
+
+/**
+ * Move webhook signing secrets that were encrypted with
+ * EXTERNAL_TOKEN_ENCRYPTION_KEY over to WEBHOOK_SECRET_ENCRYPTION_KEY.
+ * Needs both keys set. Safe to run repeatedly.
+ * Usage: npm run webhooks:reencrypt-secrets
+ */
+
+dotenv.config();
+initializeFirebase();
+
+async function reencryptWebhookSecrets() {
+  const db = getFirestore();
+  const subscriptions = await db.collection('webhook_subscriptions').select('secret').get();
+  const result = { subscriptions: subscriptions.size, reencrypted: 0 };
+
+  for (const doc of subscriptions.docs) {
+    const secret: string = doc.data().secret;
+
+    try {
+      decryptSecret(secret, 'WEBHOOK_SECRET_ENCRYPTION_KEY');
+      continue;
+    } catch {
+      // Not encrypted with the webhook key yet
+    }
+
+    const plaintext = decryptSecret(secret, 'EXTERNAL_TOKEN_ENCRYPTION_KEY');
+    await doc.ref.update({ secret: encryptSecret(plaintext, 'WEBHOOK_SECRET_ENCRYPTION_KEY') });
+    result.reencrypted++;
+  }
+
+  return result;
+}
+
+reencryptWebhookSecrets()
+  .then((result) => {
+    console.log('[Webhooks] Secret re-encryption complete:', result);
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('[Webhooks] Secret re-encryption failed:', error);
+    process.exit(1);
+  });
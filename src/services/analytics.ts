@@ -0,0 +1,292 @@
+import { getFirestore } from '../lib/firebase.js';
+import { CsvValue } from '../lib/csv.js';
+import { AnalyticsReportName } from '../lib/validation.js';
+import { getModerationStats } from './moderation.js';
+import admin from 'firebase-admin';
+
+// Documents read per query while scanning a date range
+const SCAN_PAGE_SIZE = 500;
+
+const TOP_REJECTION_REASONS = 50;
+const HOUR_MS = 3600 * 1000;
+
+// Statuses still waiting on moderation or a moderator
+const OPEN_STATUSES = ['moderation_pending', 'pending', 'flagged'];
+
+export interface AnalyticsReport {
+  report: AnalyticsReportName;
+  from: Date;
+  to: Date;
+  columns: string[];
+  rows: Array<Record<string, CsvValue>>;
+  summary: Record<string, number | null>;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function rate(count: number, total: number): number | null {
+  return total > 0 ? Number((count / total).toFixed(4)) : null;
+}
+
+function hours(ms: number | null): number | null {
+  return ms === null ? null : Number((ms / HOUR_MS).toFixed(2));
+}
+
+/**
+ * Reports for the admin dashboard and weekly ops review. Submission volume,
+ * approval rates and review times cover submissions made in the range;
+ * rejection reasons and flag precision cover decisions made in the range
+ * (from the audit log, so later resubmissions don't hide them).
+ */
+export class AnalyticsService {
+  private db = getFirestore();
+
+  async getReport(report: AnalyticsReportName, from: Date, to: Date): Promise<AnalyticsReport> {
+    const build = {
+      'volume': () => this.volume(from, to),
+      'approval-rates': () => this.approvalRates(from, to),
+      'review-times': () => this.reviewTimes(from, to),
+      'rejection-reasons': () => this.rejectionReasons(from, to),
+      'flag-precision': () => this.flagPrecision(from, to),
+      'moderation-costs': () => this.moderationCosts(from, to),
+    }[report];
+
+    return { report, from, to, ...(await build()) };
+  }
+
+  /**
+   * Submissions by type and current status
+   */
+  private async volume(from: Date, to: Date) {
+    const counts = new Map<string, { type: string; status: string; count: number }>();
+    let total = 0;
+
+    await this.scanSubmissions(from, to, ['type', 'status'], (data) => {
+      const key = `${data.type}|${data.status}`;
+      const row = counts.get(key) || { type: data.type, status: data.status, count: 0 };
+      row.count++;
+      counts.set(key, row);
+      total++;
+    });
+
+    const rows = [...counts.values()].sort((a, b) => a.type.localeCompare(b.type) || b.count - a.count);
+
+    return { columns: ['type', 'status', 'count'], rows, summary: { total } };
+  }
+
+  /**
+   * Outcomes per submission type. Rates are over decided submissions
+   * (approved + rejected), so open and withdrawn ones don't dilute them.
+   */
+  private async approvalRates(from: Date, to: Date) {
+    const byType = new Map<string, { submitted: number; approved: number; rejected: number; open: number; withdrawn: number }>();
+    const all = { submitted: 0, approved: 0, rejected: 0, open: 0, withdrawn: 0 };
+
+    await this.scanSubmissions(from, to, ['type', 'status'], (data) => {
+      const counts = byType.get(data.type) || { submitted: 0, approved: 0, rejected: 0, open: 0, withdrawn: 0 };
+      const bucket = OPEN_STATUSES.includes(data.status) ? 'open' : data.status;
+
+      for (const target of [counts, all]) {
+        target.submitted++;
+        if (bucket in target) target[bucket as keyof typeof target]++;
+      }
+      byType.set(data.type, counts);
+    });
+
+    const toRow = (type: string, counts: typeof all) => ({
+      type,
+      ...counts,
+      approvalRate: rate(counts.approved, counts.approved + counts.rejected),
+      rejectionRate: rate(counts.rejected, counts.approved + counts.rejected),
+    });
+
+    const rows = [...byType.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([type, counts]) => toRow(type, counts));
+    const overall = toRow('all', all);
+
+    return {
+      columns: ['type', 'submitted', 'approved', 'rejected', 'open', 'withdrawn', 'approvalRate', 'rejectionRate'],
+      rows: [...rows, overall],
+      summary: {
+        submitted: all.submitted,
+        approvalRate: overall.approvalRate,
+        rejectionRate: overall.rejectionRate,
+      },
+    };
+  }
+
+  /**
+   * Median hours from (re)submission to decision, per moderator
+   */
+  private async reviewTimes(from: Date, to: Date) {
+    const byModerator = new Map<string, number[]>();
+    const all: number[] = [];
+
+    await this.scanSubmissions(
+      from,
+      to,
+      ['status', 'submittedAt', 'resubmittedAt', 'reviewedAt', 'reviewedBy'],
+      (data) => {
+        if (!['approved', 'rejected'].includes(data.status) || !data.reviewedAt || !data.reviewedBy) return;
+
+        const submittedAt: Date = (data.resubmittedAt || data.submittedAt).toDate();
+        const duration = data.reviewedAt.toDate().getTime() - submittedAt.getTime();
+
+        const durations = byModerator.get(data.reviewedBy) || [];
+        durations.push(duration);
+        byModerator.set(data.reviewedBy, durations);
+        all.push(duration);
+      }
+    );
+
+    const rows = [...byModerator.entries()]
+      .map(([moderatorId, durations]) => ({
+        moderatorId,
+        reviewed: durations.length,
+        medianHours: hours(median(durations)),
+      }))
+      .sort((a, b) => b.reviewed - a.reviewed);
+
+    return {
+      columns: ['moderatorId', 'reviewed', 'medianHours'],
+      rows,
+      summary: { reviewed: all.length, medianHours: hours(median(all)) },
+    };
+  }
+
+  /**
+   * Most common rejection reasons, compared case-insensitively
+   */
+  private async rejectionReasons(from: Date, to: Date) {
+    const counts = new Map<string, { reason: string; count: number }>();
+    let total = 0;
+
+    await this.scanDecisions(from, to, ['rejected'], (data) => {
+      const reason = (data.reason || '').trim() || '(none)';
+      const key = reason.toLowerCase();
+      const row = counts.get(key) || { reason, count: 0 };
+      row.count++;
+      counts.set(key, row);
+      total++;
+    });
+
+    const rows = [...counts.values()]
+      .sort((a, b) => b.count - a.count)
+      .slice(0, TOP_REJECTION_REASONS)
+      .map(row => ({ ...row, share: rate(row.count, total) }));
+
+    return { columns: ['reason', 'count', 'share'], rows, summary: { rejections: total, distinctReasons: counts.size } };
+  }
+
+  /**
+   * How often automated flags were confirmed: of flagged submissions a
+   * moderator decided on, how many were rejected vs approved anyway
+   */
+  private async flagPrecision(from: Date, to: Date) {
+    const byModerator = new Map<string, { confirmed: number; approvedAnyway: number }>();
+    const all = { confirmed: 0, approvedAnyway: 0 };
+
+    await this.scanDecisions(from, to, ['approved', 'rejected'], (data) => {
+      if (data.fromStatus !== 'flagged') return;
+
+      const counts = byModerator.get(data.actorId) || { confirmed: 0, approvedAnyway: 0 };
+      const outcome = data.action === 'rejected' ? 'confirmed' : 'approvedAnyway';
+      counts[outcome]++;
+      all[outcome]++;
+      byModerator.set(data.actorId, counts);
+    });
+
+    const toRow = (moderatorId: string, counts: typeof all) => ({
+      moderatorId,
+      decided: counts.confirmed + counts.approvedAnyway,
+      ...counts,
+      precision: rate(counts.confirmed, counts.confirmed + counts.approvedAnyway),
+    });
+
+    const rows = [...byModerator.entries()].map(([moderatorId, counts]) => toRow(moderatorId, counts));
+    const overall = toRow('all', all);
+
+    return {
+      columns: ['moderatorId', 'decided', 'confirmed', 'approvedAnyway', 'precision'],
+      rows: [...rows.sort((a, b) => b.decided - a.decided), overall],
+      summary: { decided: overall.decided, approvedAnyway: all.approvedAnyway, precision: overall.precision },
+    };
+  }
+
+  /**
+   * Moderation spend per day
+   */
+  private async moderationCosts(from: Date, to: Date) {
+    const stats = await getModerationStats(from, to);
+
+    const rows = Object.entries(stats.byDay)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, day]) => ({ date, images: day.images, cost: Number(day.cost.toFixed(4)) }));
+
+    return {
+      columns: ['date', 'images', 'cost'],
+      rows,
+      summary: {
+        totalImages: stats.totalImages,
+        totalCost: stats.totalCost,
+        requestCount: stats.requestCount,
+      },
+    };
+  }
+
+  /**
+   * Visit every submission made in the range, reading only the given fields
+   */
+  private async scanSubmissions(
+    from: Date,
+    to: Date,
+    fields: string[],
+    visit: (data: admin.firestore.DocumentData) => void
+  ): Promise<void> {
+    const query = this.db
+      .collection('explore_submissions')
+      .where('submittedAt', '>=', from)
+      .where('submittedAt', '<=', to)
+      .orderBy('submittedAt', 'asc')
+      .select(...fields);
+
+    await this.scan(query, visit);
+  }
+
+  /**
+   * Visit moderator decisions made in the range, from the audit log
+   */
+  private async scanDecisions(
+    from: Date,
+    to: Date,
+    actions: string[],
+    visit: (data: admin.firestore.DocumentData) => void
+  ): Promise<void> {
+    const query = this.db
+      .collection('moderation_audit_log')
+      .where('action', 'in', actions)
+      .where('createdAt', '>=', from)
+      .where('createdAt', '<=', to)
+      .orderBy('createdAt', 'asc')
+      .select('action', 'actorId', 'fromStatus', 'reason');
+
+    await this.scan(query, visit);
+  }
+
+  private async scan(query: admin.firestore.Query, visit: (data: admin.firestore.DocumentData) => void): Promise<void> {
+    let last: admin.firestore.QueryDocumentSnapshot | undefined;
+
+    do {
+      const page = await (last ? query.startAfter(last) : query).limit(SCAN_PAGE_SIZE).get();
+      page.docs.forEach(doc => visit(doc.data()));
+      last = page.size === SCAN_PAGE_SIZE ? page.docs[page.size - 1] : undefined;
+    } while (last);
+  }
+}
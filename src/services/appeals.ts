@@ -0,0 +1,295 @@
+import { getFirestore } from '../lib/firebase.js';
+import { AppealResolutionInput } from '../lib/validation.js';
+import { recordAuditEvent } from './audit-log.js';
+import admin from 'firebase-admin';
+
+const APPEALS_COLLECTION = 'explore_appeals';
+
+// Decisions a creator can appeal
+const APPEALABLE_STATUSES = ['rejected', 'flagged'];
+
+export type AppealStatus = 'open' | 'upheld' | 'overturned' | 'closed';
+
+export interface Appeal {
+  id: string;
+  submissionId: string;
+  userId: string;
+  decision: string; // Submission status being appealed
+  submissionVersion: number;
+  decidedAt: Date | null;
+  message: string;
+  originalReviewerId: string | null; // null for automated flags
+  originalReason: string | null;
+  status: AppealStatus;
+  resolvedBy: string | null;
+  resolutionNote: string | null;
+  createdAt: Date;
+  resolvedAt: Date | null;
+}
+
+export class AppealError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AppealError';
+  }
+}
+
+/**
+ * When the current decision was made: the moderator's review for rejections,
+ * the automated check for flags
+ */
+function decisionTime(submission: admin.firestore.DocumentData): admin.firestore.Timestamp | null {
+  const decidedAt = submission.status === 'flagged'
+    ? submission.moderationFlags?.moderatedAt
+    : submission.reviewedAt;
+
+  return decidedAt instanceof admin.firestore.Timestamp ? decidedAt : null;
+}
+
+export class AppealService {
+  private db = getFirestore();
+
+  /**
+   * Appeal the current decision on a submission. Each decision can be appealed
+   * once; a version rejected again after an overturned appeal is a new decision.
+   * Returns null when the submission doesn't exist or isn't owned by the user
+   */
+  async createAppeal(
+    submissionId: string,
+    userId: string,
+    message: string
+  ): Promise<{ appealId: string; status: AppealStatus } | null> {
+    const submissionRef = this.db.collection('explore_submissions').doc(submissionId);
+
+    return this.db.runTransaction(async (transaction) => {
+      const submissionDoc = await transaction.get(submissionRef);
+      const submission = submissionDoc.data();
+
+      if (!submissionDoc.exists || submission?.userId !== userId) {
+        return null;
+      }
+      if (!APPEALABLE_STATUSES.includes(submission.status)) {
+        throw new AppealError(`Submissions that are ${submission.status} cannot be appealed`);
+      }
+
+      const version: number = submission.version || 1;
+      const decidedAt = decisionTime(submission);
+
+      // Deterministic ID enforces one appeal per decision
+      const appealRef = this.db
+        .collection(APPEALS_COLLECTION)
+        .doc(`${submissionId}_v${version}_${submission.status}_${decidedAt?.toMillis() ?? 0}`);
+      const existing = await transaction.get(appealRef);
+
+      if (existing.exists) {
+        throw new AppealError('This decision has already been appealed');
+      }
+
+      transaction.set(appealRef, {
+        submissionId,
+        userId,
+        decision: submission.status,
+        submissionVersion: version,
+        decidedAt,
+        message,
+        originalReviewerId: submission.reviewedBy || null,
+        originalReason: submission.rejectionReason
+          || submission.moderationFlags?.reasons?.join('; ')
+          || null,
+        status: 'open',
+        resolvedBy: null,
+        resolutionNote: null,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        resolvedAt: null,
+      });
+
+      transaction.update(submissionRef, {
+        appealId: appealRef.id,
+        appealStatus: 'open',
+      });
+
+      recordAuditEvent(transaction, {
+        submissionId,
+        submissionOwnerId: userId,
+        action: 'appealed',
+        actorId: userId,
+        actorType: 'user',
+        fromStatus: submission.status,
+        toStatus: submission.status,
+        reason: message,
+        metadata: { appealId: appealRef.id },
+      });
+
+      console.log(`[Appeal] ${appealRef.id} filed by ${userId}`);
+      return { appealId: appealRef.id, status: 'open' as const };
+    });
+  }
+
+  /**
+   * Appeals for the moderator queue, oldest first. Open appeals against the
+   * moderator's own decisions are left out since someone else must handle them.
+   */
+  async listAppeals(moderatorId: string, status: AppealStatus = 'open', limit = 20): Promise<Appeal[]> {
+    const query = this.db
+      .collection(APPEALS_COLLECTION)
+      .where('status', '==', status)
+      .orderBy('createdAt', 'asc');
+
+    if (status !== 'open') {
+      const snapshot = await query.limit(limit).get();
+      return snapshot.docs.map(doc => this.toAppeal(doc));
+    }
+
+    // != skips null fields, so appeals against automated flags are read separately
+    const [reviewed, automated] = await Promise.all([
+      query.where('originalReviewerId', '!=', moderatorId).limit(limit).get(),
+      query.where('originalReviewerId', '==', null).limit(limit).get(),
+    ]);
+
+    return [...reviewed.docs, ...automated.docs]
+      .map(doc => this.toAppeal(doc))
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0))
+      .slice(0, limit);
+  }
+
+  /**
+   * Uphold or overturn an appeal. Overturned submissions go back to 'pending'
+   * for a fresh review, which the original reviewer is excluded from. If the submission changed since the appeal was filed
+   * (withdrawn, resubmitted or re-reviewed) the appeal is closed instead.
+   * Returns null when the appeal doesn't exist
+   */
+  async resolveAppeal(
+    appealId: string,
+    moderatorId: string,
+    input: AppealResolutionInput
+  ): Promise<{ appealId: string; status: AppealStatus; submissionStatus: string } | null> {
+    const appealRef = this.db.collection(APPEALS_COLLECTION).doc(appealId);
+
+    const result = await this.db.runTransaction(async (transaction) => {
+      const appealDoc = await transaction.get(appealRef);
+      const appeal = appealDoc.data();
+
+      if (!appealDoc.exists || !appeal) {
+        return null;
+      }
+      if (appeal.status !== 'open') {
+        throw new AppealError(`Appeal is already ${appeal.status}`);
+      }
+      if (appeal.originalReviewerId === moderatorId) {
+        throw new AppealError('Appeals must be handled by a different moderator than the original reviewer');
+      }
+
+      const submissionRef = this.db.collection('explore_submissions').doc(appeal.submissionId);
+      const submissionDoc = await transaction.get(submissionRef);
+      const submission = submissionDoc.data();
+
+      if (
+        !submission ||
+        submission.status !== appeal.decision ||
+        (submission.version || 1) !== appeal.submissionVersion
+      ) {
+        transaction.update(appealRef, {
+          status: 'closed',
+          resolvedBy: moderatorId,
+          resolutionNote: 'Submission changed since the appeal was filed',
+          resolvedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        if (submission) {
+          transaction.update(submissionRef, { appealStatus: 'closed' });
+        }
+        return { appealId, status: 'closed' as const, submissionStatus: submission?.status ?? 'deleted' };
+      }
+
+      const submissionStatus = input.outcome === 'overturned' ? 'pending' : submission.status;
+
+      transaction.update(appealRef, {
+        status: input.outcome,
+        resolvedBy: moderatorId,
+        resolutionNote: input.note,
+        resolvedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      transaction.update(submissionRef, {
+        appealStatus: input.outcome,
+        ...(input.outcome === 'overturned' && {
+          status: submissionStatus,
+          rejectionReason: null,
+          reviewedAt: null,
+          reviewedBy: null,
+          excludedReviewerId: appeal.originalReviewerId,
+        }),
+      });
+
+      recordAuditEvent(transaction, {
+        submissionId: appeal.submissionId,
+        submissionOwnerId: appeal.userId,
+        action: input.outcome === 'overturned' ? 'appeal_overturned' : 'appeal_upheld',
+        actorId: moderatorId,
+        actorType: 'moderator',
+        fromStatus: submission.status,
+        toStatus: submissionStatus,
+        reason: input.note,
+        metadata: { appealId },
+      });
+
+      return { appealId, status: input.outcome, submissionStatus };
+    });
+
+    if (result) {
+      console.log(`[Appeal] ${appealId} ${result.status} by ${moderatorId}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Appeal counts and overturn rate for the moderation dashboard
+   */
+  async getAppealStats(startDate?: Date, endDate?: Date) {
+    let query: admin.firestore.Query = this.db.collection(APPEALS_COLLECTION);
+
+    if (startDate) {
+      query = query.where('createdAt', '>=', startDate);
+    }
+    if (endDate) {
+      query = query.where('createdAt', '<=', endDate);
+    }
+
+    const statuses: AppealStatus[] = ['open', 'upheld', 'overturned', 'closed'];
+    const counts = await Promise.all(
+      statuses.map(status => query.where('status', '==', status).count().get())
+    );
+
+    const byStatus = Object.fromEntries(
+      statuses.map((status, i) => [status, counts[i].data().count])
+    ) as Record<AppealStatus, number>;
+    const decided = byStatus.upheld + byStatus.overturned;
+
+    return {
+      total: Object.values(byStatus).reduce((sum, count) => sum + count, 0),
+      ...byStatus,
+      overturnRate: decided > 0 ? byStatus.overturned / decided : 0,
+    };
+  }
+
+  private toAppeal(doc: admin.firestore.DocumentSnapshot): Appeal {
+    const data = doc.data()!;
+
+    return {
+      id: doc.id,
+      submissionId: data.submissionId,
+      userId: data.userId,
+      decision: data.decision,
+      submissionVersion: data.submissionVersion,
+      decidedAt: data.decidedAt?.toDate() || null,
+      message: data.message,
+      originalReviewerId: data.originalReviewerId,
+      originalReason: data.originalReason,
+      status: data.status,
+      resolvedBy: data.resolvedBy,
+      resolutionNote: data.resolutionNote,
+      createdAt: data.createdAt?.toDate(),
+      resolvedAt: data.resolvedAt?.toDate() || null,
+    };
+  }
+}
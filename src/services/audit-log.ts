@@ -0,0 +1,124 @@
+import { getFirestore } from '../lib/firebase.js';
+import { AuditLogFilter, AuditAction } from '../lib/validation.js';
+import admin from 'firebase-admin';
+
+const AUDIT_COLLECTION = 'moderation_audit_log';
+
+// 'system' covers automated changes such as moderation retries
+export type AuditActorType = 'user' | 'moderator' | 'system';
+
+export interface AuditEvent {
+  submissionId: string;
+  submissionOwnerId: string;
+  action: AuditAction;
+  actorId: string | null;
+  actorType: AuditActorType;
+  fromStatus: string | null;
+  toStatus: string;
+  reason?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AuditLogEntry extends Omit<AuditEvent, 'reason' | 'metadata'> {
+  id: string;
+  reason: string | null;
+  metadata: Record<string, unknown>;
+  createdAt: Date;
+}
+
+// Both WriteBatch and Transaction satisfy this
+interface AuditWriter {
+  set(ref: admin.firestore.DocumentReference, data: admin.firestore.DocumentData): unknown;
+}
+
+/**
+ * Append a status change to the audit log. Written in the caller's batch or
+ * transaction so the log never disagrees with the submission.
+ */
+export function recordAuditEvent(writer: AuditWriter, event: AuditEvent): void {
+  const db = getFirestore();
+
+  writer.set(db.collection(AUDIT_COLLECTION).doc(), {
+    ...event,
+    reason: event.reason || null,
+    metadata: event.metadata || {},
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * Read side of the audit log. Entries are never updated or deleted.
+ */
+export class AuditLogService {
+  private db = getFirestore();
+
+  /**
+   * Status changes for one submission, oldest first
+   * Returns null when the submission doesn't exist
+   */
+  async getSubmissionHistory(submissionId: string): Promise<AuditLogEntry[] | null> {
+    const [submissionDoc, snapshot] = await Promise.all([
+      this.db.collection('explore_submissions').doc(submissionId).get(),
+      this.db
+        .collection(AUDIT_COLLECTION)
+        .where('submissionId', '==', submissionId)
+        .orderBy('createdAt', 'asc')
+        .get(),
+    ]);
+
+    if (!submissionDoc.exists && snapshot.empty) {
+      return null;
+    }
+
+    return snapshot.docs.map(doc => this.toEntry(doc));
+  }
+
+  /**
+   * Audit feed for admins, newest first
+   */
+  async listEntries(filter: AuditLogFilter): Promise<{ entries: AuditLogEntry[]; nextCursor?: string }> {
+    let query: admin.firestore.Query = this.db.collection(AUDIT_COLLECTION);
+
+    if (filter.submissionId) query = query.where('submissionId', '==', filter.submissionId);
+    if (filter.actorId) query = query.where('actorId', '==', filter.actorId);
+    if (filter.action) query = query.where('action', '==', filter.action);
+    if (filter.toStatus) query = query.where('toStatus', '==', filter.toStatus);
+    if (filter.from) query = query.where('createdAt', '>=', filter.from);
+    if (filter.to) query = query.where('createdAt', '<=', filter.to);
+
+    query = query.orderBy('createdAt', 'desc').limit(filter.limit + 1);
+
+    if (filter.cursor) {
+      const cursorDoc = await this.db.collection(AUDIT_COLLECTION).doc(filter.cursor).get();
+      if (cursorDoc.exists) {
+        query = query.startAfter(cursorDoc);
+      }
+    }
+
+    const snapshot = await query.get();
+    const docs = snapshot.docs.slice(0, filter.limit);
+
+    return {
+      entries: docs.map(doc => this.toEntry(doc)),
+      nextCursor: snapshot.docs.length > filter.limit ? docs[docs.length - 1].id : undefined,
+    };
+  }
+
+  private toEntry(doc: admin.firestore.DocumentSnapshot): AuditLogEntry {
+    const data = doc.data()!;
+
+    return {
+      id: doc.id,
+      submissionId: data.submissionId,
+      submissionOwnerId: data.submissionOwnerId,
+      action: data.action,
+      actorId: data.actorId,
+      actorType: data.actorType,
+      fromStatus: data.fromStatus,
+      toStatus: data.toStatus,
+      reason: data.reason,
+      metadata: data.metadata || {},
+      createdAt: data.createdAt?.toDate(),
+    };
+  }
+}
@@ -0,0 +1,391 @@
+import { getFirestore } from '../lib/firebase.js';
+import { BrowseEntriesQuery } from '../lib/validation.js';
+import { CollectionService, isCollectionLive } from './collections.js';
+import admin from 'firebase-admin';
+
+// How long an instance reuses the facet index before checking for a newer one
+const INDEX_TTL_MS = (Number(process.env.BROWSE_INDEX_TTL_SECONDS) || 60) * 1000;
+
+// Documents read per query while building the index
+const SCAN_PAGE_SIZE = 1000;
+
+// The built index is stored as JSON chunks, each well under the 1 MiB document limit
+const INDEX_COLLECTION = 'browse_index';
+const INDEX_CHUNK_SIZE = 1500;
+
+// Most common tags and materials returned as facets
+const TOP_FACET_VALUES = 30;
+
+// Internal fields left out of public responses
+const PRIVATE_ENTRY_FIELDS = ['imageHashes', 'imageHashBands', 'curatedBy', 'pinnedBy'];
+
+const FACETS = ['type', 'tags', 'difficulty', 'priceRange', 'materials'] as const;
+
+type Facet = typeof FACETS[number];
+export type FacetCounts = Record<Facet, Record<string, number>>;
+
+/**
+ * The fields needed to filter, count and sort an entry, for every entry in a
+ * live collection
+ */
+export interface IndexedEntry {
+  path: string;
+  collectionId: string;
+  values: Record<Facet, string[]>;
+  trendScore: number;
+  createdAt: number;
+}
+
+export interface PublicCollection {
+  id: string;
+  title: string;
+  description: string | null;
+  coverUrl: string | null;
+  position: number;
+  entryCount: number;
+  activeUntil: Date | null;
+}
+
+export interface PublicEntry {
+  id: string;
+  collectionId: string;
+  [key: string]: unknown;
+}
+
+export interface BrowseResult {
+  entries: PublicEntry[];
+  total: number;
+  facets: FacetCounts;
+  nextCursor?: string;
+}
+
+let cachedIndex: { entries: Promise<IndexedEntry[]>; expiresAt: number } | undefined;
+let loadedIndex: { version: string; entries: IndexedEntry[] } | undefined;
+
+/**
+ * Read-only, unauthenticated access to published collections and entries.
+ * Hidden collections and collections outside their active window are never
+ * returned; unlisted ones can be opened by ID but aren't listed or searched.
+ */
+export class BrowseService {
+  private db = getFirestore();
+  private collectionService = new CollectionService();
+
+  /**
+   * Public collections that are currently active, in display order
+   */
+  async listCollections(limit = 20, cursor?: string): Promise<{ collections: PublicCollection[]; nextCursor?: string }> {
+    const query = this.db
+      .collection('explore_collections')
+      .where('visibility', '==', 'public')
+      .orderBy('position', 'asc');
+    const now = new Date();
+    const live: admin.firestore.QueryDocumentSnapshot[] = [];
+
+    // Inactive collections are skipped, so keep reading until the page is full
+    let last = cursor ? await this.db.collection('explore_collections').doc(cursor).get() : undefined;
+    if (last && !last.exists) last = undefined;
+
+    do {
+      const page = await (last ? query.startAfter(last) : query).limit(limit + 1).get();
+      live.push(...page.docs.filter(doc => isCollectionLive(doc.data(), now)));
+      last = page.size === limit + 1 ? page.docs[page.size - 1] : undefined;
+    } while (last && live.length <= limit);
+
+    const docs = live.slice(0, limit);
+
+    return {
+      collections: docs.map(doc => this.toPublicCollection(doc)),
+      nextCursor: live.length > limit ? docs[docs.length - 1].id : undefined,
+    };
+  }
+
+  /**
+   * Returns null when the collection doesn't exist, is hidden or isn't active
+   */
+  async getCollection(collectionId: string): Promise<PublicCollection | null> {
+    const doc = await this.db.collection('explore_collections').doc(collectionId).get();
+
+    if (!doc.exists || !isCollectionLive(doc.data(), new Date(), ['public', 'unlisted'])) {
+      return null;
+    }
+    return this.toPublicCollection(doc);
+  }
+
+  /**
+   * A collection's entries in curated order (pinned first)
+   * Returns null when the collection can't be browsed
+   */
+  async listCollectionEntries(
+    collectionId: string,
+    limit = 20,
+    cursor?: string
+  ): Promise<{ entries: PublicEntry[]; nextCursor?: string } | null> {
+    if (!(await this.getCollection(collectionId))) {
+      return null;
+    }
+
+    const result = await this.collectionService.listEntries(collectionId, limit, cursor);
+    if (!result) {
+      return null;
+    }
+
+    return {
+      entries: result.entries.map(toPublicEntry),
+      nextCursor: result.nextCursor,
+    };
+  }
+
+  /**
+   * Entries across all public collections matching the filters, with counts
+   * per facet value. A facet's counts apply every filter except its own, so
+   * clients can show how many results each alternative chip would give.
+   */
+  async browseEntries(query: BrowseEntriesQuery): Promise<BrowseResult> {
+    const { page, total, facets, nextCursor } = searchIndex(await this.getIndex(), query);
+    const docs = page.length > 0 ? await this.db.getAll(...page.map(entry => this.db.doc(entry.path))) : [];
+
+    return {
+      entries: docs.filter(doc => doc.exists).map(doc => toPublicEntry({
+        id: doc.id,
+        collectionId: doc.ref.parent.parent!.id,
+        ...doc.data(),
+        createdAt: doc.data()!.createdAt?.toDate() || null,
+        updatedAt: doc.data()!.updatedAt?.toDate() || null,
+      })),
+      total,
+      facets,
+      nextCursor,
+    };
+  }
+
+  /**
+   * Scan every entry and store a new facet index for requests to load.
+   * Run on a schedule; requests never scan entries themselves.
+   */
+  async rebuildIndex(): Promise<{ version: string; entries: number; chunks: number }> {
+    const entries = await this.scanEntries();
+    const indexRef = this.db.collection(INDEX_COLLECTION);
+    const previous = (await indexRef.doc('meta').get()).data();
+    const version = String(Date.now());
+    const chunks = Math.ceil(entries.length / INDEX_CHUNK_SIZE);
+
+    // Chunks first, so the meta doc never points at a partly written index
+    for (let i = 0; i < chunks; i++) {
+      await indexRef.doc(`${version}_${i}`).set({
+        version,
+        entries: JSON.stringify(entries.slice(i * INDEX_CHUNK_SIZE, (i + 1) * INDEX_CHUNK_SIZE)),
+      });
+    }
+    await indexRef.doc('meta').set({
+      version,
+      chunks,
+      entryCount: entries.length,
+      builtAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    // Keep the previous version for instances that are loading it right now
+    const keep = [version, previous?.version].filter(Boolean).map(v => `${v}_`);
+    const stale = (await indexRef.select().get()).docs
+      .filter(doc => doc.id !== 'meta' && !keep.some(prefix => doc.id.startsWith(prefix)));
+    await Promise.all(stale.map(doc => doc.ref.delete()));
+
+    console.log(`[Browse] Indexed ${entries.length} entries in ${chunks} chunks (version ${version})`);
+    return { version, entries: entries.length, chunks };
+  }
+
+  /**
+   * Facet fields of every entry in a public, active collection. Loaded from
+   * the stored index, shared between requests and checked for a newer
+   * version every INDEX_TTL_MS.
+   */
+  private getIndex(): Promise<IndexedEntry[]> {
+    if (cachedIndex && cachedIndex.expiresAt > Date.now()) {
+      return cachedIndex.entries;
+    }
+
+    const entries = this.loadIndex();
+    cachedIndex = { entries, expiresAt: Date.now() + INDEX_TTL_MS };
+    entries.catch(() => { cachedIndex = undefined; });
+    return entries;
+  }
+
+  private async loadIndex(): Promise<IndexedEntry[]> {
+    const indexRef = this.db.collection(INDEX_COLLECTION);
+    const [meta, collections] = await Promise.all([
+      indexRef.doc('meta').get(),
+      this.db.collection('explore_collections').select('visibility', 'activeFrom', 'activeUntil').get(),
+    ]);
+    const { version, chunks } = meta.data() || {};
+
+    if (!version) {
+      console.warn('[Browse] No facet index yet; run POST /api/internal/browse/rebuild-index');
+      return [];
+    }
+
+    let index = loadedIndex;
+    if (!index || index.version !== version) {
+      const chunkDocs = chunks > 0
+        ? await this.db.getAll(...Array.from({ length: chunks }, (_, i) => indexRef.doc(`${version}_${i}`)))
+        : [];
+      index = loadedIndex = {
+        version,
+        entries: chunkDocs.flatMap(doc => JSON.parse(doc.data()?.entries || '[]') as IndexedEntry[]),
+      };
+    }
+
+    // Visibility and active windows are checked here rather than at build
+    // time, so publishing changes apply without waiting for a rebuild.
+    // Collection documents missing entirely predate curation and count as public.
+    const now = new Date();
+    const hidden = new Set(
+      collections.docs.filter(doc => !isCollectionLive(doc.data(), now)).map(doc => doc.id)
+    );
+    return index.entries.filter(entry => !hidden.has(entry.collectionId));
+  }
+
+  private async scanEntries(): Promise<IndexedEntry[]> {
+    const query = this.db
+      .collectionGroup('entries')
+      .select('type', 'tags', 'difficulty', 'priceRange', 'materials', 'trendScore', 'createdAt');
+    const index: IndexedEntry[] = [];
+    let last: admin.firestore.QueryDocumentSnapshot | undefined;
+
+    do {
+      const page = await (last ? query.startAfter(last) : query).limit(SCAN_PAGE_SIZE).get();
+
+      for (const doc of page.docs) {
+        const collectionRef = doc.ref.parent.parent;
+        if (!collectionRef || collectionRef.parent.id !== 'explore_collections') continue;
+
+        const data = doc.data();
+        index.push({
+          path: doc.ref.path,
+          collectionId: collectionRef.id,
+          values: {
+            type: data.type ? [data.type] : [],
+            tags: [...new Set<string>(data.tags || [])],
+            difficulty: data.difficulty ? [data.difficulty] : [],
+            priceRange: data.priceRange ? [data.priceRange] : [],
+            materials: [...new Set<string>((data.materials || []).map((m: string) => m.toLowerCase()))],
+          },
+          trendScore: data.trendScore ?? 0,
+          createdAt: data.createdAt?.toMillis() ?? 0,
+        });
+      }
+
+      last = page.size === SCAN_PAGE_SIZE ? page.docs[page.size - 1] : undefined;
+    } while (last);
+
+    return index;
+  }
+
+  private toPublicCollection(doc: admin.firestore.DocumentSnapshot): PublicCollection {
+    const data = doc.data()!;
+
+    return {
+      id: doc.id,
+      title: data.title ?? doc.id,
+      description: data.description ?? null,
+      coverUrl: data.coverUrl ?? null,
+      position: data.position ?? 0,
+      entryCount: data.entryCount ?? 0,
+      activeUntil: data.activeUntil?.toDate() || null,
+    };
+  }
+}
+
+/**
+ * Filter, count and page the index for a browse query
+ */
+export function searchIndex(
+  index: IndexedEntry[],
+  query: BrowseEntriesQuery
+): { page: IndexedEntry[]; total: number; facets: FacetCounts; nextCursor?: string } {
+  const filters: Partial<Record<Facet, string[]>> = {
+    type: query.type,
+    tags: query.tags,
+    difficulty: query.difficulty,
+    priceRange: query.priceRange,
+    materials: query.materials,
+  };
+
+  const inScope = query.collectionId
+    ? index.filter(entry => entry.collectionId === query.collectionId)
+    : index;
+
+  const facets = Object.fromEntries(FACETS.map(facet => [facet, {}])) as FacetCounts;
+  const matches: IndexedEntry[] = [];
+
+  for (const entry of inScope) {
+    const failed = FACETS.filter(facet => !matchesFacet(entry, facet, filters[facet]));
+
+    if (failed.length === 0) {
+      matches.push(entry);
+    }
+    // Count toward a facet when every other facet matches
+    for (const facet of FACETS) {
+      if (failed.length === 0 || (failed.length === 1 && failed[0] === facet)) {
+        for (const value of entry.values[facet]) {
+          facets[facet][value] = (facets[facet][value] || 0) + 1;
+        }
+      }
+    }
+  }
+
+  facets.tags = topValues(facets.tags);
+  facets.materials = topValues(facets.materials);
+
+  const sortKey = (entry: IndexedEntry) => query.sort === 'newest' ? entry.createdAt : entry.trendScore;
+  matches.sort((a, b) => sortKey(b) - sortKey(a) || (a.path < b.path ? -1 : 1));
+
+  const after = decodeCursor(query.cursor);
+  const start = after
+    ? matches.findIndex(entry => sortKey(entry) < after.s || (sortKey(entry) === after.s && entry.path > after.p))
+    : 0;
+  const page = start === -1 ? [] : matches.slice(start, start + query.limit);
+  const hasMore = start !== -1 && matches.length > start + query.limit;
+  const last = page[page.length - 1];
+
+  return {
+    page,
+    total: matches.length,
+    facets,
+    nextCursor: hasMore ? encodeCursor(sortKey(last), last.path) : undefined,
+  };
+}
+
+function matchesFacet(entry: IndexedEntry, facet: Facet, wanted?: string[]): boolean {
+  return !wanted || entry.values[facet].some(value => wanted.includes(value));
+}
+
+function topValues(counts: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(counts).sort(([, a], [, b]) => b - a).slice(0, TOP_FACET_VALUES)
+  );
+}
+
+function toPublicEntry(entry: PublicEntry): PublicEntry {
+  return Object.fromEntries(
+    Object.entries(entry).filter(([key]) => !PRIVATE_ENTRY_FIELDS.includes(key))
+  ) as PublicEntry;
+}
+
+/**
+ * Cursors hold the last entry's sort value and path, so pages stay stable
+ * when the index is rebuilt between requests
+ */
+function encodeCursor(sortValue: number, path: string): string {
+  return Buffer.from(JSON.stringify({ s: sortValue, p: path })).toString('base64url');
+}
+
+function decodeCursor(cursor?: string): { s: number; p: string } | null {
+  if (!cursor) return null;
+
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return typeof decoded.s === 'number' && typeof decoded.p === 'string' ? decoded : null;
+  } catch {
+    return null;
+  }
+}
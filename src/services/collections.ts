@@ -0,0 +1,500 @@
+import { getFirestore } from '../lib/firebase.js';
+import {
+  CollectionInput,
+  CollectionUpdate,
+  CollectionFilter,
+  CollectionVisibility,
+} from '../lib/validation.js';
+import admin from 'firebase-admin';
+
+const COLLECTIONS = 'explore_collections';
+
+export interface Collection {
+  id: string;
+  title: string;
+  description: string | null;
+  coverUrl: string | null;
+  visibility: CollectionVisibility;
+  position: number;
+  activeFrom: Date | null;
+  activeUntil: Date | null;
+  entryCount: number;
+  createdBy: string | null;
+  updatedBy: string | null;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+}
+
+export interface CollectionEntry {
+  id: string;
+  collectionId: string;
+  position: number;
+  pinned: boolean;
+  pinnedAt: Date | null;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+  [key: string]: unknown;
+}
+
+export class CollectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CollectionError';
+  }
+}
+
+/**
+ * Whether a collection's entries should be shown to the public right now:
+ * visibility 'public' and inside its active window. Collections created
+ * before visibility existed count as public. Pass ['public', 'unlisted'] for
+ * collections opened directly by ID.
+ */
+export function isCollectionLive(
+  data: admin.firestore.DocumentData | undefined,
+  now = new Date(),
+  visibilities: CollectionVisibility[] = ['public']
+): boolean {
+  if (!data) return true;
+
+  const activeFrom: Date | null = data.activeFrom?.toDate() ?? null;
+  const activeUntil: Date | null = data.activeUntil?.toDate() ?? null;
+
+  return visibilities.includes(data.visibility ?? 'public')
+    && (!activeFrom || activeFrom <= now)
+    && (!activeUntil || activeUntil > now);
+}
+
+/**
+ * Sort key for a new entry: lower is earlier, so newer entries come first
+ * until a curator reorders them
+ */
+export function newEntryPosition(): number {
+  return -Date.now();
+}
+
+/**
+ * Display order of entries, matching listEntries' query: pinned first (most
+ * recently pinned on top), then by position
+ */
+export function compareEntryOrder(a: CollectionEntry, b: CollectionEntry): number {
+  if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+
+  const pinnedAt = (b.pinnedAt?.getTime() ?? 0) - (a.pinnedAt?.getTime() ?? 0);
+  return pinnedAt || a.position - b.position;
+}
+
+export class CollectionService {
+  private db = getFirestore();
+
+  private collectionRef(collectionId: string) {
+    return this.db.collection(COLLECTIONS).doc(collectionId);
+  }
+
+  private entryRef(collectionId: string, entryId: string) {
+    return this.collectionRef(collectionId).collection('entries').doc(entryId);
+  }
+
+  async createCollection(curatorId: string, input: CollectionInput): Promise<Collection> {
+    const { slug, ...fields } = input;
+    const ref = slug ? this.collectionRef(slug) : this.db.collection(COLLECTIONS).doc();
+
+    try {
+      await ref.create({
+        ...fields,
+        entryCount: 0,
+        entriesOrdered: true,
+        createdBy: curatorId,
+        updatedBy: curatorId,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    } catch (error: any) {
+      if (error.code === 6) { // ALREADY_EXISTS
+        throw new CollectionError(`A collection with ID "${slug}" already exists`);
+      }
+      throw error;
+    }
+
+    console.log(`[Collections] ${curatorId} created ${ref.id}`);
+    return this.toCollection(await ref.get());
+  }
+
+  /**
+   * All collections regardless of visibility, in display order
+   */
+  async listCollections(params: CollectionFilter): Promise<{ collections: Collection[]; nextCursor?: string }> {
+    let query: admin.firestore.Query = this.db.collection(COLLECTIONS);
+
+    if (params.visibility) {
+      query = query.where('visibility', '==', params.visibility);
+    }
+
+    query = query.orderBy('position', 'asc').limit(params.limit + 1);
+
+    if (params.cursor) {
+      const cursorDoc = await this.collectionRef(params.cursor).get();
+      if (cursorDoc.exists) {
+        query = query.startAfter(cursorDoc);
+      }
+    }
+
+    const snapshot = await query.get();
+    const docs = snapshot.docs.slice(0, params.limit);
+
+    return {
+      collections: docs.map(doc => this.toCollection(doc)),
+      nextCursor: snapshot.docs.length > params.limit ? docs[docs.length - 1].id : undefined,
+    };
+  }
+
+  async getCollection(collectionId: string): Promise<Collection | null> {
+    const doc = await this.collectionRef(collectionId).get();
+    return doc.exists ? this.toCollection(doc) : null;
+  }
+
+  /**
+   * Returns null when the collection doesn't exist
+   */
+  async updateCollection(
+    collectionId: string,
+    curatorId: string,
+    input: CollectionUpdate
+  ): Promise<Collection | null> {
+    const ref = this.collectionRef(collectionId);
+    const doc = await ref.get();
+
+    if (!doc.exists) {
+      return null;
+    }
+
+    const current = this.toCollection(doc);
+    const activeFrom = input.activeFrom !== undefined ? input.activeFrom : current.activeFrom;
+    const activeUntil = input.activeUntil !== undefined ? input.activeUntil : current.activeUntil;
+    if (activeFrom && activeUntil && activeFrom >= activeUntil) {
+      throw new CollectionError('activeFrom must be before activeUntil');
+    }
+
+    const updates = Object.fromEntries(
+      Object.entries(input).filter(([, value]) => value !== undefined)
+    );
+    await ref.update({
+      ...updates,
+      updatedBy: curatorId,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    console.log(`[Collections] ${curatorId} updated ${collectionId}`);
+    return this.toCollection(await ref.get());
+  }
+
+  /**
+   * Only empty collections can be deleted; move or remove entries first
+   */
+  async deleteCollection(collectionId: string, curatorId: string): Promise<boolean> {
+    const ref = this.collectionRef(collectionId);
+    const [doc, entries] = await Promise.all([
+      ref.get(),
+      ref.collection('entries').limit(1).get(),
+    ]);
+
+    if (!doc.exists) {
+      return false;
+    }
+    if (!entries.empty) {
+      throw new CollectionError('Collection still has entries; move or remove them first');
+    }
+
+    await ref.delete();
+    console.log(`[Collections] ${curatorId} deleted ${collectionId}`);
+    return true;
+  }
+
+  /**
+   * Entries in display order: pinned first (most recently pinned on top),
+   * then by position
+   * Returns null when the collection doesn't exist
+   */
+  async listEntries(
+    collectionId: string,
+    limit = 20,
+    cursor?: string
+  ): Promise<{ entries: CollectionEntry[]; nextCursor?: string } | null> {
+    const ref = this.collectionRef(collectionId);
+    const doc = await ref.get();
+
+    if (!doc.exists) {
+      return null;
+    }
+
+    // Entries from before curation may lack the ordering fields, and orderBy
+    // leaves out documents missing a field. Until collections:backfill has
+    // given them the fields, read the collection whole and sort it here.
+    if (!doc.data()!.entriesOrdered) {
+      const snapshot = await ref.collection('entries').get();
+      const ordered = snapshot.docs.map(entry => this.toEntry(entry)).sort(compareEntryOrder);
+      const start = cursor ? ordered.findIndex(entry => entry.id === cursor) + 1 : 0;
+      const entries = ordered.slice(start, start + limit);
+
+      return {
+        entries,
+        nextCursor: ordered.length > start + limit ? entries[entries.length - 1].id : undefined,
+      };
+    }
+
+    let query = ref
+      .collection('entries')
+      .orderBy('pinned', 'desc')
+      .orderBy('pinnedAt', 'desc')
+      .orderBy('position', 'asc')
+      .limit(limit + 1);
+
+    if (cursor) {
+      const cursorDoc = await ref.collection('entries').doc(cursor).get();
+      if (cursorDoc.exists) {
+        query = query.startAfter(cursorDoc);
+      }
+    }
+
+    const snapshot = await query.get();
+    const docs = snapshot.docs.slice(0, limit);
+
+    return {
+      entries: docs.map(entry => this.toEntry(entry)),
+      nextCursor: snapshot.docs.length > limit ? docs[docs.length - 1].id : undefined,
+    };
+  }
+
+  /**
+   * Put the given entries in the given order. They swap among the positions
+   * they already hold, so entries not listed keep their place.
+   * Returns null when the collection doesn't exist
+   */
+  async reorderEntries(collectionId: string, curatorId: string, entryIds: string[]): Promise<CollectionEntry[] | null> {
+    const collectionRef = this.collectionRef(collectionId);
+
+    const reordered = await this.db.runTransaction(async (transaction) => {
+      const collectionDoc = await transaction.get(collectionRef);
+      if (!collectionDoc.exists) {
+        return null;
+      }
+
+      const refs = entryIds.map(id => this.entryRef(collectionId, id));
+      const docs = await transaction.getAll(...refs);
+
+      const missing = docs.filter(doc => !doc.exists).map(doc => doc.id);
+      if (missing.length > 0) {
+        throw new CollectionError(`Entries not in this collection: ${missing.join(', ')}`);
+      }
+
+      const positions = docs
+        .map(doc => doc.data()!.position ?? newEntryPosition())
+        .sort((a, b) => a - b);
+
+      refs.forEach((ref, i) => {
+        transaction.update(ref, {
+          position: positions[i],
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      });
+
+      return true;
+    });
+
+    if (!reordered) {
+      return null;
+    }
+
+    console.log(`[Collections] ${curatorId} reordered ${entryIds.length} entries in ${collectionId}`);
+
+    const docs = await this.db.getAll(...entryIds.map(id => this.entryRef(collectionId, id)));
+    return docs.map(doc => this.toEntry(doc));
+  }
+
+  /**
+   * Pinned entries are featured at the top of their collection
+   * Returns null when the entry doesn't exist
+   */
+  async setPinned(
+    collectionId: string,
+    entryId: string,
+    curatorId: string,
+    pinned: boolean
+  ): Promise<CollectionEntry | null> {
+    const ref = this.entryRef(collectionId, entryId);
+    const doc = await ref.get();
+
+    if (!doc.exists) {
+      return null;
+    }
+
+    await ref.update({
+      pinned,
+      pinnedAt: pinned ? admin.firestore.FieldValue.serverTimestamp() : null,
+      pinnedBy: pinned ? curatorId : null,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    console.log(`[Collections] ${curatorId} ${pinned ? 'pinned' : 'unpinned'} ${collectionId}/${entryId}`);
+    return this.toEntry(await ref.get());
+  }
+
+  /**
+   * Move an entry to another collection, keeping its ID and metrics. It goes
+   * to the top of the target collection, unpinned, and the submission it came
+   * from is pointed at the new location. Engagement dedupe and trend scoring
+   * go by entry ID, so they carry over without migrating events.
+   * Returns null when the entry doesn't exist
+   */
+  async moveEntry(
+    collectionId: string,
+    entryId: string,
+    curatorId: string,
+    toCollectionId: string
+  ): Promise<CollectionEntry | null> {
+    if (toCollectionId === collectionId) {
+      throw new CollectionError('Entry is already in this collection');
+    }
+
+    const sourceRef = this.entryRef(collectionId, entryId);
+    const targetRef = this.entryRef(toCollectionId, entryId);
+    const targetCollectionRef = this.collectionRef(toCollectionId);
+    const submissionRef = await this.findSubmissionRef(collectionId, entryId);
+
+    const moved = await this.db.runTransaction(async (transaction) => {
+      const [sourceDoc, targetDoc, targetCollection] = await transaction.getAll(
+        sourceRef,
+        targetRef,
+        targetCollectionRef
+      );
+
+      if (!sourceDoc.exists) {
+        return false;
+      }
+      if (!targetCollection.exists) {
+        throw new CollectionError(`Collection ${toCollectionId} does not exist`);
+      }
+      if (targetDoc.exists) {
+        throw new CollectionError(`Collection ${toCollectionId} already has an entry with this ID`);
+      }
+
+      transaction.set(targetRef, {
+        ...sourceDoc.data(),
+        position: newEntryPosition(),
+        pinned: false,
+        pinnedAt: null,
+        pinnedBy: null,
+        movedFrom: collectionId,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      transaction.delete(sourceRef);
+
+      transaction.set(this.collectionRef(collectionId), { entryCount: admin.firestore.FieldValue.increment(-1) }, { merge: true });
+      transaction.update(targetCollectionRef, { entryCount: admin.firestore.FieldValue.increment(1) });
+
+      if (submissionRef) {
+        transaction.update(submissionRef, { approvedCollectionId: toCollectionId });
+      }
+      return true;
+    });
+
+    if (!moved) {
+      return null;
+    }
+
+    console.log(`[Collections] ${curatorId} moved ${entryId} from ${collectionId} to ${toCollectionId}`);
+    return this.toEntry(await targetRef.get());
+  }
+
+  /**
+   * Take an entry off Explore. The submission stays approved but no longer
+   * points at an entry.
+   * Returns false when the entry doesn't exist
+   */
+  async removeEntry(collectionId: string, entryId: string, curatorId: string): Promise<boolean> {
+    const ref = this.entryRef(collectionId, entryId);
+    const submissionRef = await this.findSubmissionRef(collectionId, entryId);
+
+    const removed = await this.db.runTransaction(async (transaction) => {
+      const doc = await transaction.get(ref);
+      if (!doc.exists) {
+        return false;
+      }
+
+      transaction.delete(ref);
+      transaction.set(this.collectionRef(collectionId), { entryCount: admin.firestore.FieldValue.increment(-1) }, { merge: true });
+
+      if (submissionRef) {
+        transaction.update(submissionRef, {
+          approvedEntryId: null,
+          approvedCollectionId: null,
+          entryRemovedAt: admin.firestore.FieldValue.serverTimestamp(),
+          entryRemovedBy: curatorId,
+        });
+      }
+      return true;
+    });
+
+    if (removed) {
+      console.log(`[Collections] ${curatorId} removed ${collectionId}/${entryId}`);
+    }
+    return removed;
+  }
+
+  /**
+   * The submission an entry was approved from, if any. Entries created before
+   * submissionId was stored are matched by approvedEntryId.
+   */
+  private async findSubmissionRef(collectionId: string, entryId: string) {
+    const entry = await this.entryRef(collectionId, entryId).get();
+    const submissionId = entry.data()?.submissionId;
+
+    if (submissionId) {
+      return this.db.collection('explore_submissions').doc(submissionId);
+    }
+
+    const snapshot = await this.db
+      .collection('explore_submissions')
+      .where('approvedEntryId', '==', entryId)
+      .where('approvedCollectionId', '==', collectionId)
+      .limit(1)
+      .get();
+
+    return snapshot.empty ? null : snapshot.docs[0].ref;
+  }
+
+  private toCollection(doc: admin.firestore.DocumentSnapshot): Collection {
+    const data = doc.data()!;
+
+    return {
+      id: doc.id,
+      title: data.title,
+      description: data.description ?? null,
+      coverUrl: data.coverUrl ?? null,
+      visibility: data.visibility ?? 'public',
+      position: data.position ?? 0,
+      activeFrom: data.activeFrom?.toDate() || null,
+      activeUntil: data.activeUntil?.toDate() || null,
+      entryCount: data.entryCount ?? 0,
+      createdBy: data.createdBy ?? null,
+      updatedBy: data.updatedBy ?? null,
+      createdAt: data.createdAt?.toDate() || null,
+      updatedAt: data.updatedAt?.toDate() || null,
+    };
+  }
+
+  private toEntry(doc: admin.firestore.DocumentSnapshot): CollectionEntry {
+    const data = doc.data()!;
+
+    return {
+      ...data,
+      id: doc.id,
+      collectionId: doc.ref.parent.parent!.id,
+      // Same default as collections:backfill for entries from before curation
+      position: data.position ?? -(data.createdAt?.toMillis() ?? 0),
+      pinned: data.pinned ?? false,
+      pinnedAt: data.pinnedAt?.toDate() || null,
+      createdAt: data.createdAt?.toDate() || null,
+      updatedAt: data.updatedAt?.toDate() || null,
+    };
+  }
+}
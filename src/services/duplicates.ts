@@ -0,0 +1,163 @@
+import sharp from 'sharp';
+import { getFirestore } from '../lib/firebase.js';
+import { fetchPublicUrl } from '../lib/network.js';
+
+const HASH_BANDS = 4; // 4 x 16-bit bands; see hashBands()
+
+// Max Hamming distance (out of 64 bits) for two images to count as duplicates.
+// Lookups probe each band with up to one flipped bit, which finds every match
+// within 2 * HASH_BANDS - 1 bits, so it is capped there.
+const DUPLICATE_HASH_DISTANCE = Math.min(
+  Number(process.env.DUPLICATE_HASH_DISTANCE) || 6,
+  2 * HASH_BANDS - 1
+);
+const MAX_IMAGE_BYTES = 25 * 1024 * 1024;
+const CANDIDATE_LIMIT = 200; // Per query; matches past it are missed, so truncation is logged
+
+export interface DuplicateCheckResult {
+  score: number; // 0-1, similarity of the closest match (0 when none)
+  matchedSubmissionIds: string[];
+  matchedEntryIds: string[];
+  ownContentOnly: boolean; // true when every match belongs to the same user
+}
+
+/**
+ * 64-bit difference hash (dHash) of an image, as 16 hex chars.
+ * Robust to resizing, recompression and small color changes.
+ * The URL comes from the client, so it is fetched with fetchPublicUrl.
+ */
+export async function computeImageHash(imageUrl: string): Promise<string> {
+  const data = await fetchPublicUrl(imageUrl, { maxBytes: MAX_IMAGE_BYTES, timeout: 10000 });
+
+  const pixels = await sharp(data)
+    .rotate()
+    .grayscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hash = 0n;
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const left = pixels[row * 9 + col];
+      const right = pixels[row * 9 + col + 1];
+      hash = (hash << 1n) | (left > right ? 1n : 0n);
+    }
+  }
+
+  return hash.toString(16).padStart(16, '0');
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff > 0n) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+}
+
+/**
+ * Split a hash into indexed 16-bit bands, stored as imageHashBands for
+ * candidate lookup with array-contains-any
+ */
+export function hashBands(hash: string): string[] {
+  const width = hash.length / HASH_BANDS;
+  return Array.from({ length: HASH_BANDS }, (_, i) => `${i}:${hash.slice(i * width, (i + 1) * width)}`);
+}
+
+/**
+ * Band values to look up for a hash: each band as-is and with each of its
+ * bits flipped. Two hashes within 2 * HASH_BANDS - 1 bits differ in at most
+ * one bit in some band (pigeonhole), so that band is among the probes.
+ */
+export function hashProbes(hash: string): string[] {
+  return hashBands(hash).flatMap((band) => {
+    const [index, chunk] = band.split(':');
+    const value = parseInt(chunk, 16);
+    const bits = chunk.length * 4;
+    const variants = Array.from({ length: bits }, (_, bit) =>
+      `${index}:${(value ^ (1 << bit)).toString(16).padStart(chunk.length, '0')}`
+    );
+    return [band, ...variants];
+  });
+}
+
+/**
+ * Compare image hashes against existing submissions and approved entries
+ * excludeSubmissionId skips the submission being checked (when it is re-moderated)
+ */
+export async function findDuplicates(
+  userId: string,
+  hashes: string[],
+  excludeSubmissionId?: string
+): Promise<DuplicateCheckResult> {
+  const result: DuplicateCheckResult = {
+    score: 0,
+    matchedSubmissionIds: [],
+    matchedEntryIds: [],
+    ownContentOnly: true,
+  };
+
+  if (hashes.length === 0) {
+    return result;
+  }
+
+  const db = getFirestore();
+  const probes = [...new Set(hashes.flatMap(hashProbes))];
+  let minDistance = Infinity;
+
+  const consider = (doc: any, ownerId: string | undefined, matches: string[]) => {
+    const candidateHashes: string[] = doc.data().imageHashes || [];
+    let closest = Infinity;
+
+    for (const hash of hashes) {
+      for (const candidate of candidateHashes) {
+        closest = Math.min(closest, hammingDistance(hash, candidate));
+      }
+    }
+
+    if (closest <= DUPLICATE_HASH_DISTANCE && !matches.includes(doc.id)) {
+      matches.push(doc.id);
+      minDistance = Math.min(minDistance, closest);
+      if (ownerId !== userId) result.ownContentOnly = false;
+    }
+  };
+
+  // array-contains-any accepts at most 30 values
+  for (let i = 0; i < probes.length; i += 30) {
+    const chunk = probes.slice(i, i + 30);
+
+    const [submissions, entries] = await Promise.all([
+      db.collection('explore_submissions')
+        .where('imageHashBands', 'array-contains-any', chunk)
+        .select('imageHashes', 'userId')
+        .limit(CANDIDATE_LIMIT)
+        .get(),
+      db.collectionGroup('entries')
+        .where('imageHashBands', 'array-contains-any', chunk)
+        .select('imageHashes', 'submitterId')
+        .limit(CANDIDATE_LIMIT)
+        .get(),
+    ]);
+
+    if (submissions.size === CANDIDATE_LIMIT || entries.size === CANDIDATE_LIMIT) {
+      console.warn(
+        `[Duplicates] Candidate lookup for ${userId} hit the ${CANDIDATE_LIMIT} limit ` +
+        `(submissions: ${submissions.size}, entries: ${entries.size}); some matches may be missed`
+      );
+    }
+
+    submissions.docs
+      .filter(doc => doc.id !== excludeSubmissionId)
+      .forEach(doc => consider(doc, doc.data().userId, result.matchedSubmissionIds));
+    entries.docs.forEach(doc => consider(doc, doc.data().submitterId, result.matchedEntryIds));
+  }
+
+  if (minDistance !== Infinity) {
+    result.score = 1 - minDistance / 64;
+  }
+
+  return result;
+}
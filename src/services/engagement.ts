@@ -0,0 +1,205 @@
+import { getFirestore } from '../lib/firebase.js';
+import { EngagementInput } from '../lib/validation.js';
+import admin from 'firebase-admin';
+
+// Repeat views and shares of the same entry by the same user inside these
+// windows are not counted
+const VIEW_DEDUPE_WINDOW_MS =
+  (Number(process.env.ENGAGEMENT_VIEW_DEDUPE_MINUTES) || 30) * 60 * 1000;
+const SHARE_DEDUPE_WINDOW_MS =
+  (Number(process.env.ENGAGEMENT_SHARE_DEDUPE_MINUTES) || 24 * 60) * 60 * 1000;
+
+// Field on the user/entry dedupe doc holding when each action was last counted
+const DEDUPE_FIELDS: Record<EngagementInput['action'], string> = {
+  view: 'lastViewedAt',
+  save: 'savedAt',
+  share: 'lastSharedAt',
+  book: 'bookedAt',
+};
+
+// Entry metrics counter incremented for each action
+const METRIC_FIELDS: Record<EngagementInput['action'], string> = {
+  view: 'views',
+  save: 'saves',
+  share: 'shares',
+  book: 'bookings',
+};
+
+// How strongly a save or booking shifts the user's affinity profile
+const AFFINITY_WEIGHTS: Partial<Record<EngagementInput['action'], number>> = {
+  save: 1,
+  book: 3,
+};
+
+export interface EngagementResult {
+  collectionId: string;
+  entryId: string;
+  action: EngagementInput['action'];
+  counted: boolean; // false when deduplicated or rejected
+  error?: string;
+}
+
+export class EngagementService {
+  private db = getFirestore();
+
+  /**
+   * Record a raw engagement event and update the entry's aggregate metrics.
+   * Saves and bookings count once per user and entry; views and shares once
+   * per dedupe window.
+   */
+  async recordEvent(userId: string, event: EngagementInput): Promise<EngagementResult> {
+    const entryRef = this.db
+      .collection('explore_collections')
+      .doc(event.collectionId)
+      .collection('entries')
+      .doc(event.entryId);
+    // Keyed by entry ID, which stays the same when an entry moves collections
+    const dedupeRef = this.db
+      .collection('explore_engagement_dedupe')
+      .doc(`${userId}_${event.entryId}`);
+    const eventRef = this.db.collection('explore_engagement_events').doc();
+
+    const result: EngagementResult = {
+      collectionId: event.collectionId,
+      entryId: event.entryId,
+      action: event.action,
+      counted: false,
+    };
+
+    const outcome = await this.db.runTransaction(async (transaction) => {
+      const entryDoc = await transaction.get(entryRef);
+      if (!entryDoc.exists) {
+        return 'not_found' as const;
+      }
+
+      const dedupeDoc = await transaction.get(dedupeRef);
+      const duplicate = isDuplicateEngagement(event.action, dedupeDoc.data(), Date.now());
+
+      transaction.set(eventRef, {
+        userId,
+        collectionId: event.collectionId,
+        entryId: event.entryId,
+        action: event.action,
+        duration: event.duration ?? null,
+        deduplicated: duplicate,
+        occurredAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      if (duplicate) {
+        return 'duplicate' as const;
+      }
+
+      const updates: Record<string, unknown> = {
+        [`metrics.${METRIC_FIELDS[event.action]}`]: admin.firestore.FieldValue.increment(1),
+        lastEngagedAt: admin.firestore.FieldValue.serverTimestamp(),
+      };
+
+      if (event.action === 'view') {
+        if (event.duration !== undefined) {
+          // Dwell time: average = totalViewSeconds / timedViews
+          updates['metrics.totalViewSeconds'] = admin.firestore.FieldValue.increment(event.duration);
+          updates['metrics.timedViews'] = admin.firestore.FieldValue.increment(1);
+        }
+      }
+
+      transaction.set(dedupeRef, {
+        userId,
+        entryId: event.entryId,
+        [DEDUPE_FIELDS[event.action]]: new Date(),
+      }, { merge: true });
+
+      transaction.update(entryRef, updates);
+
+      const weight = AFFINITY_WEIGHTS[event.action];
+      if (weight) {
+        transaction.set(
+          this.db.collection('user_explore_preferences').doc(userId),
+          buildAffinityUpdate(userId, entryDoc.data()!, weight),
+          { merge: true }
+        );
+      }
+
+      return 'counted' as const;
+    });
+
+    if (outcome === 'not_found') {
+      result.error = 'Entry not found';
+    } else {
+      result.counted = outcome === 'counted';
+    }
+
+    return result;
+  }
+
+  /**
+   * Record a batch of events in order. Events are processed sequentially so
+   * repeated events for the same entry within one batch are deduplicated.
+   */
+  async recordBatch(userId: string, events: EngagementInput[]): Promise<EngagementResult[]> {
+    const results: EngagementResult[] = [];
+
+    for (const event of events) {
+      try {
+        results.push(await this.recordEvent(userId, event));
+      } catch (error) {
+        console.error('[Engagement] Failed to record event:', event, error);
+        results.push({
+          collectionId: event.collectionId,
+          entryId: event.entryId,
+          action: event.action,
+          counted: false,
+          error: 'Failed to record event',
+        });
+      }
+    }
+
+    const counted = results.filter(r => r.counted).length;
+    console.log(`[Engagement] Recorded batch of ${events.length} for ${userId} (${counted} counted)`);
+
+    return results;
+  }
+}
+
+/**
+ * Whether an action was already counted for this user and entry, given the
+ * user/entry dedupe doc
+ */
+export function isDuplicateEngagement(
+  action: EngagementInput['action'],
+  record: admin.firestore.DocumentData | undefined,
+  now: number
+): boolean {
+  const countedAt: Date | undefined = record?.[DEDUPE_FIELDS[action]]?.toDate();
+  if (!countedAt) return false;
+
+  switch (action) {
+    case 'view':
+      return now - countedAt.getTime() < VIEW_DEDUPE_WINDOW_MS;
+    case 'share':
+      return now - countedAt.getTime() < SHARE_DEDUPE_WINDOW_MS;
+    case 'save':
+    case 'book':
+      return true;
+  }
+}
+
+/**
+ * Build a merge update incrementing the user's affinity counters for the
+ * entry's attributes (read by the personalized feed)
+ */
+function buildAffinityUpdate(userId: string, entry: admin.firestore.DocumentData, weight: number) {
+  const increment = admin.firestore.FieldValue.increment(weight);
+  const counters = (values: Array<string | undefined>) =>
+    Object.fromEntries(values.filter((v): v is string => !!v).map(v => [v, increment]));
+
+  return {
+    userId,
+    affinity: {
+      tags: counters(entry.tags || []),
+      types: counters([entry.type]),
+      difficulty: counters([entry.difficulty]),
+      priceRange: counters([entry.priceRange]),
+    },
+    affinityUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+}
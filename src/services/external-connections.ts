@@ -0,0 +1,257 @@
+import { getFirestore } from '../lib/firebase.js';
+import { encryptSecret, decryptSecret } from '../lib/crypto.js';
+import {
+  ExternalPlatform,
+  ExternalImportInput,
+  SubmissionSchema,
+  SubmissionInput,
+} from '../lib/validation.js';
+import { getExternalProvider, ExternalPost, ExternalTokens } from './external-providers.js';
+import { SubmissionService } from './submissions.js';
+import admin from 'firebase-admin';
+
+const RECENT_POSTS_LIMIT = 25;
+
+// Refresh tokens a little before they actually expire
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export interface ExternalConnection {
+  platform: ExternalPlatform;
+  externalUserId: string;
+  username?: string;
+  connectedAt?: Date;
+  lastImportAt?: Date;
+}
+
+export interface ImportResult {
+  postId: string;
+  submissionId?: string;
+  status?: string;
+  error?: string;
+}
+
+export class ExternalConnectionService {
+  private db = getFirestore();
+  private submissionService = new SubmissionService();
+
+  private connectionRef(userId: string, platform: ExternalPlatform) {
+    return this.db
+      .collection('user_explore_preferences')
+      .doc(userId)
+      .collection('connections')
+      .doc(platform);
+  }
+
+  async connect(
+    userId: string,
+    platform: ExternalPlatform,
+    authCode: string
+  ): Promise<ExternalConnection> {
+    const tokens = await getExternalProvider(platform).exchangeCode(authCode);
+
+    await this.connectionRef(userId, platform).set({
+      platform,
+      externalUserId: tokens.externalUserId,
+      username: tokens.username || null,
+      ...this.encryptTokens(tokens),
+      connectedAt: admin.firestore.FieldValue.serverTimestamp(),
+      lastImportAt: null,
+    });
+
+    console.log(`[External] Connected ${platform} account ${tokens.externalUserId} for ${userId}`);
+
+    return {
+      platform,
+      externalUserId: tokens.externalUserId,
+      username: tokens.username,
+    };
+  }
+
+  async disconnect(userId: string, platform: ExternalPlatform): Promise<boolean> {
+    const ref = this.connectionRef(userId, platform);
+    const doc = await ref.get();
+
+    if (!doc.exists) {
+      return false;
+    }
+
+    await ref.delete();
+    console.log(`[External] Disconnected ${platform} for ${userId}`);
+    return true;
+  }
+
+  async listConnections(userId: string): Promise<ExternalConnection[]> {
+    const snapshot = await this.db
+      .collection('user_explore_preferences')
+      .doc(userId)
+      .collection('connections')
+      .get();
+
+    // Never return token material to clients
+    return snapshot.docs.map((doc: any) => ({
+      platform: doc.id,
+      externalUserId: doc.data().externalUserId,
+      username: doc.data().username || undefined,
+      connectedAt: doc.data().connectedAt?.toDate(),
+      lastImportAt: doc.data().lastImportAt?.toDate(),
+    }));
+  }
+
+  /**
+   * Fetch the user's recent posts, marking the ones already imported
+   * Returns null when the platform is not connected
+   */
+  async listRecentPosts(
+    userId: string,
+    platform: ExternalPlatform
+  ): Promise<Array<ExternalPost & { imported: boolean }> | null> {
+    const accessToken = await this.getAccessToken(userId, platform);
+    if (!accessToken) {
+      return null;
+    }
+
+    const posts = await getExternalProvider(platform).fetchRecentPosts(accessToken, RECENT_POSTS_LIMIT);
+    const imported = await this.findImportedPostIds(userId, platform, posts.map(p => p.id));
+
+    return posts.map(post => ({ ...post, imported: imported.has(post.id) }));
+  }
+
+  /**
+   * Turn selected posts into regular submissions (which run through moderation)
+   * Returns null when the platform is not connected
+   */
+  async importPosts(
+    userId: string,
+    platform: ExternalPlatform,
+    input: ExternalImportInput
+  ): Promise<ImportResult[] | null> {
+    const accessToken = await this.getAccessToken(userId, platform);
+    if (!accessToken) {
+      return null;
+    }
+
+    const posts = await getExternalProvider(platform).fetchRecentPosts(accessToken, RECENT_POSTS_LIMIT);
+    const postsById = new Map(posts.map(post => [post.id, post]));
+    const alreadyImported = await this.findImportedPostIds(userId, platform, input.postIds);
+
+    const results: ImportResult[] = [];
+
+    for (const postId of input.postIds) {
+      const post = postsById.get(postId);
+
+      if (!post) {
+        results.push({ postId, error: 'Post not found in recent posts' });
+        continue;
+      }
+      if (alreadyImported.has(postId)) {
+        results.push({ postId, error: 'Post already imported' });
+        continue;
+      }
+
+      try {
+        const submissionInput = SubmissionSchema.parse(this.toSubmissionInput(platform, post, input));
+        const { submissionId, status } = await this.submissionService.createSubmission(
+          userId,
+          submissionInput,
+          { source: { platform, externalId: post.id, permalink: post.permalink ?? null } }
+        );
+        results.push({ postId, submissionId, status });
+      } catch (error: any) {
+        console.error(`[External] Failed to import ${platform} post ${postId}:`, error);
+        results.push({
+          postId,
+          error: error.name === 'ZodError' ? 'Post cannot be converted to a submission' : 'Import failed',
+        });
+      }
+    }
+
+    await this.connectionRef(userId, platform).update({
+      lastImportAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    console.log(
+      `[External] Imported ${results.filter(r => r.submissionId).length}/${input.postIds.length} ` +
+      `${platform} posts for ${userId}`
+    );
+
+    return results;
+  }
+
+  private toSubmissionInput(
+    platform: ExternalPlatform,
+    post: ExternalPost,
+    input: ExternalImportInput
+  ): SubmissionInput {
+    const hashtags = (post.caption.match(/#[\p{L}\p{N}_]+/gu) || []).map(tag => tag.slice(1));
+    const text = post.caption.replace(/#[\p{L}\p{N}_]+/gu, '').trim();
+    const firstLine = text.split('\n')[0].trim();
+    const label = platform === 'instagram' ? 'Instagram' : 'TikTok';
+
+    return {
+      type: input.type,
+      title: firstLine.length >= 3 ? firstLine.slice(0, 120) : `Imported from ${label}`,
+      description: text.length >= 10 ? text.slice(0, 2000) : undefined,
+      mediaUrls: [post.mediaUrl],
+      tags: [...new Set([...input.tags, ...hashtags].map(t => t.toLowerCase()))].slice(0, 20),
+      difficulty: input.difficulty,
+      priceRange: input.priceRange,
+    };
+  }
+
+  private async findImportedPostIds(
+    userId: string,
+    platform: ExternalPlatform,
+    postIds: string[]
+  ): Promise<Set<string>> {
+    const imported = new Set<string>();
+
+    // Firestore 'in' queries accept at most 30 values
+    for (let i = 0; i < postIds.length; i += 30) {
+      const snapshot = await this.db
+        .collection('explore_submissions')
+        .where('userId', '==', userId)
+        .where('source.platform', '==', platform)
+        .where('source.externalId', 'in', postIds.slice(i, i + 30))
+        .get();
+
+      snapshot.docs.forEach((doc: any) => imported.add(doc.data().source.externalId));
+    }
+
+    return imported;
+  }
+
+  private async getAccessToken(userId: string, platform: ExternalPlatform): Promise<string | null> {
+    const ref = this.connectionRef(userId, platform);
+    const doc = await ref.get();
+
+    if (!doc.exists) {
+      return null;
+    }
+
+    const data = doc.data()!;
+    const expiresAt: Date | undefined = data.expiresAt?.toDate();
+    const provider = getExternalProvider(platform);
+
+    if (
+      expiresAt &&
+      expiresAt.getTime() - TOKEN_REFRESH_MARGIN_MS < Date.now() &&
+      data.refreshToken &&
+      provider.refreshTokens
+    ) {
+      const tokens = await provider.refreshTokens(decryptSecret(data.refreshToken));
+      await ref.update(this.encryptTokens(tokens));
+      console.log(`[External] Refreshed ${platform} token for ${userId}`);
+      return tokens.accessToken;
+    }
+
+    return decryptSecret(data.accessToken);
+  }
+
+  private encryptTokens(tokens: ExternalTokens) {
+    return {
+      accessToken: encryptSecret(tokens.accessToken),
+      refreshToken: tokens.refreshToken ? encryptSecret(tokens.refreshToken) : null,
+      expiresAt: tokens.expiresAt || null,
+    };
+  }
+}
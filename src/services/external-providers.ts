@@ -0,0 +1,252 @@
+import axios from 'axios';
+import { ExternalPlatform } from '../lib/validation.js';
+
+export interface ExternalTokens {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: Date;
+  externalUserId: string;
+  username?: string;
+}
+
+export interface ExternalPost {
+  id: string;
+  caption: string;
+  mediaUrl: string; // Image URL (cover image for videos) used for moderation
+  mediaType: 'image' | 'video';
+  permalink?: string;
+  postedAt?: Date;
+}
+
+/**
+ * An external content platform users can connect and import posts from
+ */
+export interface ExternalProvider {
+  readonly platform: ExternalPlatform;
+  exchangeCode(authCode: string): Promise<ExternalTokens>;
+  refreshTokens?(refreshToken: string): Promise<ExternalTokens>;
+  fetchRecentPosts(accessToken: string, limit: number): Promise<ExternalPost[]>;
+}
+
+export class ExternalProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExternalProviderError';
+  }
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new ExternalProviderError(`${name} is not configured`);
+  }
+  return value;
+}
+
+/**
+ * Instagram Basic Display / Graph API
+ */
+export class InstagramProvider implements ExternalProvider {
+  readonly platform = 'instagram' as const;
+
+  async exchangeCode(authCode: string): Promise<ExternalTokens> {
+    const form = new URLSearchParams({
+      client_id: requireEnv('INSTAGRAM_CLIENT_ID'),
+      client_secret: requireEnv('INSTAGRAM_CLIENT_SECRET'),
+      grant_type: 'authorization_code',
+      redirect_uri: requireEnv('INSTAGRAM_REDIRECT_URI'),
+      code: authCode,
+    });
+
+    try {
+      const { data: shortLived } = await axios.post(
+        'https://api.instagram.com/oauth/access_token',
+        form.toString(),
+        { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
+      );
+
+      // Swap the 1-hour token for a 60-day long-lived token
+      const { data: longLived } = await axios.get('https://graph.instagram.com/access_token', {
+        params: {
+          grant_type: 'ig_exchange_token',
+          client_secret: requireEnv('INSTAGRAM_CLIENT_SECRET'),
+          access_token: shortLived.access_token,
+        },
+      });
+
+      const { data: profile } = await axios.get('https://graph.instagram.com/me', {
+        params: { fields: 'id,username', access_token: longLived.access_token },
+      });
+
+      return {
+        accessToken: longLived.access_token,
+        expiresAt: new Date(Date.now() + longLived.expires_in * 1000),
+        externalUserId: String(profile.id),
+        username: profile.username,
+      };
+    } catch (error: any) {
+      console.error('[External] Instagram token exchange failed:', error.response?.data || error.message);
+      throw new ExternalProviderError('Instagram authorization failed');
+    }
+  }
+
+  async fetchRecentPosts(accessToken: string, limit: number): Promise<ExternalPost[]> {
+    try {
+      const { data } = await axios.get('https://graph.instagram.com/me/media', {
+        params: {
+          fields: 'id,caption,media_type,media_url,thumbnail_url,permalink,timestamp',
+          limit,
+          access_token: accessToken,
+        },
+      });
+
+      return (data.data || []).map((item: any) => ({
+        id: String(item.id),
+        caption: item.caption || '',
+        mediaUrl: item.media_type === 'VIDEO' ? item.thumbnail_url : item.media_url,
+        mediaType: item.media_type === 'VIDEO' ? 'video' : 'image',
+        permalink: item.permalink,
+        postedAt: item.timestamp ? new Date(item.timestamp) : undefined,
+      }));
+    } catch (error: any) {
+      console.error('[External] Instagram media fetch failed:', error.response?.data || error.message);
+      throw new ExternalProviderError('Failed to fetch Instagram posts');
+    }
+  }
+}
+
+/**
+ * TikTok Login Kit + Display API (v2)
+ */
+export class TikTokProvider implements ExternalProvider {
+  readonly platform = 'tiktok' as const;
+
+  async exchangeCode(authCode: string): Promise<ExternalTokens> {
+    return this.requestToken({
+      grant_type: 'authorization_code',
+      code: authCode,
+      redirect_uri: requireEnv('TIKTOK_REDIRECT_URI'),
+    });
+  }
+
+  async refreshTokens(refreshToken: string): Promise<ExternalTokens> {
+    return this.requestToken({
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+    });
+  }
+
+  async fetchRecentPosts(accessToken: string, limit: number): Promise<ExternalPost[]> {
+    try {
+      const { data } = await axios.post(
+        'https://open.tiktokapis.com/v2/video/list/',
+        { max_count: Math.min(limit, 20) },
+        {
+          params: { fields: 'id,title,video_description,cover_image_url,share_url,create_time' },
+          headers: { Authorization: `Bearer ${accessToken}` },
+        }
+      );
+
+      return (data.data?.videos || []).map((video: any) => ({
+        id: String(video.id),
+        caption: video.video_description || video.title || '',
+        mediaUrl: video.cover_image_url,
+        mediaType: 'video' as const,
+        permalink: video.share_url,
+        postedAt: video.create_time ? new Date(video.create_time * 1000) : undefined,
+      }));
+    } catch (error: any) {
+      console.error('[External] TikTok video fetch failed:', error.response?.data || error.message);
+      throw new ExternalProviderError('Failed to fetch TikTok videos');
+    }
+  }
+
+  private async requestToken(params: Record<string, string>): Promise<ExternalTokens> {
+    const form = new URLSearchParams({
+      client_key: requireEnv('TIKTOK_CLIENT_KEY'),
+      client_secret: requireEnv('TIKTOK_CLIENT_SECRET'),
+      ...params,
+    });
+
+    try {
+      const { data } = await axios.post(
+        'https://open.tiktokapis.com/v2/oauth/token/',
+        form.toString(),
+        { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
+      );
+
+      if (data.error) {
+        throw new Error(data.error_description || data.error);
+      }
+
+      return {
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token,
+        expiresAt: new Date(Date.now() + data.expires_in * 1000),
+        externalUserId: data.open_id,
+      };
+    } catch (error: any) {
+      console.error('[External] TikTok token request failed:', error.response?.data || error.message);
+      throw new ExternalProviderError('TikTok authorization failed');
+    }
+  }
+}
+
+/**
+ * Offline provider for local development and tests.
+ * Any auth code is accepted except "invalid"; posts are generated deterministically.
+ */
+export class FakeProvider implements ExternalProvider {
+  constructor(readonly platform: ExternalPlatform) {}
+
+  async exchangeCode(authCode: string): Promise<ExternalTokens> {
+    if (authCode === 'invalid') {
+      throw new ExternalProviderError(`${this.platform} authorization failed`);
+    }
+
+    return {
+      accessToken: `fake-${this.platform}-token-${authCode}`,
+      refreshToken: `fake-${this.platform}-refresh-${authCode}`,
+      expiresAt: new Date(Date.now() + 3600 * 1000),
+      externalUserId: `fake-${authCode}`,
+      username: `fake_${this.platform}_user`,
+    };
+  }
+
+  async refreshTokens(refreshToken: string): Promise<ExternalTokens> {
+    return this.exchangeCode(refreshToken.replace(`fake-${this.platform}-refresh-`, ''));
+  }
+
+  async fetchRecentPosts(_accessToken: string, limit: number): Promise<ExternalPost[]> {
+    return Array.from({ length: Math.min(limit, 5) }, (_, i) => ({
+      id: `${this.platform}-post-${i + 1}`,
+      caption: `Fake ${this.platform} post ${i + 1} showing a chrome nail design #chrome #nails`,
+      mediaUrl: `https://picsum.photos/seed/${this.platform}-${i + 1}/1080/1080`,
+      mediaType: 'image' as const,
+      permalink: `https://example.com/${this.platform}/${i + 1}`,
+      postedAt: new Date(Date.now() - i * 86400 * 1000),
+    }));
+  }
+}
+
+const providers = new Map<ExternalPlatform, ExternalProvider>();
+
+/**
+ * Resolve the provider for a platform. Set EXTERNAL_PROVIDER_MODE=fake to use
+ * the offline provider for every platform.
+ */
+export function getExternalProvider(platform: ExternalPlatform): ExternalProvider {
+  let provider = providers.get(platform);
+  if (provider) return provider;
+
+  if (process.env.EXTERNAL_PROVIDER_MODE === 'fake') {
+    provider = new FakeProvider(platform);
+  } else if (platform === 'instagram') {
+    provider = new InstagramProvider();
+  } else {
+    provider = new TikTokProvider();
+  }
+
+  providers.set(platform, provider);
+  return provider;
+}
@@ -0,0 +1,329 @@
+import { getFirestore } from '../lib/firebase.js';
+import { isCollectionLive } from './collections.js';
+import admin from 'firebase-admin';
+
+// Number of top-trending entries considered for ranking on each request
+const CANDIDATE_POOL_SIZE = Number(process.env.FEED_CANDIDATE_POOL) || 300;
+
+// Documents read per query once the feed is past the candidate pool
+const TRENDING_PAGE_SIZE = 100;
+
+// Diversity rules applied per page
+const MAX_PER_COLLECTION = Number(process.env.FEED_MAX_PER_COLLECTION) || 4;
+const MAX_PER_CREATOR = Number(process.env.FEED_MAX_PER_CREATOR) || 2;
+
+// Entries held back by the caps that a cursor carries to later pages; past
+// this, entries are shown even when they exceed a cap
+const MAX_DEFERRED = 10;
+
+// Share of the final score taken by the user's affinity (the rest is trendScore)
+const PERSONALIZATION_WEIGHT = 0.6;
+
+const ATTRIBUTE_WEIGHTS = {
+  tags: 0.4,
+  types: 0.25,
+  difficulty: 0.2,
+  priceRange: 0.15,
+};
+
+type AffinityMap = Record<string, number>;
+
+export interface AffinityProfile {
+  tags: AffinityMap;
+  types: AffinityMap;
+  difficulty: AffinityMap;
+  priceRange: AffinityMap;
+}
+
+export interface FeedEntry {
+  id: string;
+  collectionId: string;
+  title: string;
+  type: string;
+  mediaUrl: string;
+  thumbUrl: string;
+  tags: string[];
+  trendScore: number;
+  score: number;
+  submitterId?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Position in the feed: the phase and sort value (ranked score or trendScore)
+ * and path of the last entry read, plus entries deferred to later pages
+ */
+export interface FeedCursor {
+  ph: 'ranked' | 'trending';
+  s: number;
+  p: string;
+  d: string[];
+}
+
+export interface FeedCandidate {
+  entry: FeedEntry;
+  phase: FeedCursor['ph'];
+  sortValue: number;
+}
+
+export class FeedService {
+  private db = getFirestore();
+
+  /**
+   * The first FEED_CANDIDATE_POOL trending entries are ranked with the user's
+   * affinity; past them the feed continues in plain trendScore order. Cursors
+   * hold the last entry read (keyset, not an offset), so scores changing
+   * between requests don't make pages skip or repeat entries.
+   */
+  async getFeed(
+    userId: string | undefined,
+    limit = 20,
+    cursor?: string
+  ): Promise<{ entries: FeedEntry[]; nextCursor?: string; personalized: boolean }> {
+    const after = decodeCursor(cursor);
+    const [profile, carried] = await Promise.all([
+      userId ? this.getAffinityProfile(userId) : Promise.resolve(null),
+      this.getEntries(after?.d || []),
+    ]);
+
+    const candidates = this.getCandidates(after, profile, new Set(after?.d));
+    const { entries, deferred, last, exhausted } = await fillPage(
+      carried.map(entry => ({ ...entry, score: scoreEntry(entry, profile) })),
+      candidates,
+      limit
+    );
+    const hasMore = deferred.length > 0 || (!exhausted && !(await candidates.next()).done);
+    await candidates.return(undefined);
+
+    const position = last ? { ph: last.phase, s: last.sortValue, p: entryPath(last.entry) } : after;
+
+    return {
+      entries,
+      nextCursor: hasMore && position
+        ? encodeCursor({ ...position, d: deferred.map(entryPath) })
+        : undefined,
+      personalized: !!profile,
+    };
+  }
+
+  /**
+   * Entries after the cursor in feed order: the ranked candidate pool first,
+   * then everything below it by trendScore
+   */
+  private async *getCandidates(
+    after: FeedCursor | null,
+    profile: AffinityProfile | null,
+    skip: Set<string>
+  ): AsyncGenerator<FeedCandidate> {
+    let trendingAfter = after?.ph === 'trending' ? { s: after.s, p: after.p } : undefined;
+
+    if (!trendingAfter) {
+      const snapshot = await this.trendingQuery().limit(CANDIDATE_POOL_SIZE).get();
+      const ranked = (await this.liveEntries(snapshot.docs))
+        .map(entry => ({ ...entry, score: scoreEntry(entry, profile) }))
+        .sort((a, b) => b.score - a.score || (entryPath(a) < entryPath(b) ? -1 : 1));
+
+      for (const entry of ranked) {
+        const path = entryPath(entry);
+        if (after && !(entry.score < after.s || (entry.score === after.s && path > after.p))) continue;
+        if (skip.has(path)) continue;
+        yield { entry, phase: 'ranked', sortValue: entry.score };
+      }
+
+      if (snapshot.size < CANDIDATE_POOL_SIZE) return;
+      const lastDoc = snapshot.docs[snapshot.size - 1];
+      trendingAfter = { s: lastDoc.data().trendScore, p: lastDoc.ref.path };
+    }
+
+    // Hidden collections are skipped, so keep reading until the caller stops
+    while (trendingAfter) {
+      const snapshot = await this.trendingQuery()
+        .startAfter(trendingAfter.s, trendingAfter.p)
+        .limit(TRENDING_PAGE_SIZE)
+        .get();
+
+      for (const entry of await this.liveEntries(snapshot.docs)) {
+        if (skip.has(entryPath(entry))) continue;
+        yield {
+          entry: { ...entry, score: scoreEntry(entry, profile) },
+          phase: 'trending',
+          sortValue: entry.trendScore,
+        };
+      }
+
+      const lastDoc = snapshot.docs[snapshot.size - 1];
+      trendingAfter = snapshot.size === TRENDING_PAGE_SIZE
+        ? { s: lastDoc.data().trendScore, p: lastDoc.ref.path }
+        : undefined;
+    }
+  }
+
+  private trendingQuery(): admin.firestore.Query {
+    return this.db
+      .collectionGroup('entries')
+      .orderBy('trendScore', 'desc')
+      .orderBy(admin.firestore.FieldPath.documentId(), 'desc');
+  }
+
+  /**
+   * Entries deferred by an earlier page, still live and in the given order
+   */
+  private async getEntries(paths: string[]): Promise<FeedEntry[]> {
+    if (paths.length === 0) return [];
+
+    const docs = await this.db.getAll(...paths.map(path => this.db.doc(path)));
+    return this.liveEntries(docs.filter(doc => doc.exists));
+  }
+
+  /**
+   * Leave out entries in hidden, unlisted or out-of-window collections
+   */
+  private async liveEntries(docs: admin.firestore.DocumentSnapshot[]): Promise<FeedEntry[]> {
+    const collectionRefs = [
+      ...new Map(docs.map(doc => [doc.ref.parent.parent!.path, doc.ref.parent.parent!])).values(),
+    ];
+    const collections = collectionRefs.length > 0 ? await this.db.getAll(...collectionRefs) : [];
+    const now = new Date();
+    const live = new Set(
+      collections.filter(doc => isCollectionLive(doc.data(), now)).map(doc => doc.id)
+    );
+
+    return docs.filter(doc => live.has(doc.ref.parent.parent!.id)).map((doc: any) => ({
+      id: doc.id,
+      collectionId: doc.ref.parent.parent!.id,
+      ...doc.data(),
+      trendScore: doc.data().trendScore ?? 0,
+      createdAt: doc.data().createdAt?.toDate(),
+      updatedAt: doc.data().updatedAt?.toDate(),
+    })) as FeedEntry[];
+  }
+
+  private async getAffinityProfile(userId: string): Promise<AffinityProfile | null> {
+    const doc = await this.db.collection('user_explore_preferences').doc(userId).get();
+    const affinity = doc.data()?.affinity;
+
+    if (!affinity) {
+      return null;
+    }
+
+    const profile: AffinityProfile = {
+      tags: normalize(affinity.tags),
+      types: normalize(affinity.types),
+      difficulty: normalize(affinity.difficulty),
+      priceRange: normalize(affinity.priceRange),
+    };
+
+    const hasSignal = Object.values(profile).some(map => Object.keys(map).length > 0);
+    return hasSignal ? profile : null;
+  }
+}
+
+/**
+ * Scale affinity counters to 0-1 relative to the user's strongest preference
+ */
+function normalize(counters: AffinityMap | undefined): AffinityMap {
+  const values = Object.values(counters || {});
+  const max = Math.max(0, ...values);
+  if (max === 0) return {};
+
+  return Object.fromEntries(
+    Object.entries(counters!).map(([key, value]) => [key, value / max])
+  );
+}
+
+function scoreAffinity(entry: FeedEntry, profile: AffinityProfile): number {
+  const tagScore = Math.max(0, ...(entry.tags || []).map(tag => profile.tags[tag] || 0));
+
+  return (
+    ATTRIBUTE_WEIGHTS.tags * tagScore +
+    ATTRIBUTE_WEIGHTS.types * (profile.types[entry.type] || 0) +
+    ATTRIBUTE_WEIGHTS.difficulty * (profile.difficulty[entry.difficulty as string] || 0) +
+    ATTRIBUTE_WEIGHTS.priceRange * (profile.priceRange[entry.priceRange as string] || 0)
+  );
+}
+
+export function scoreEntry(entry: FeedEntry, profile: AffinityProfile | null): number {
+  return profile
+    ? (1 - PERSONALIZATION_WEIGHT) * entry.trendScore + PERSONALIZATION_WEIGHT * scoreAffinity(entry, profile)
+    : entry.trendScore;
+}
+
+function entryPath(entry: FeedEntry): string {
+  return `explore_collections/${entry.collectionId}/entries/${entry.id}`;
+}
+
+/**
+ * Build one page so no collection or creator exceeds its per-page cap.
+ * Entries deferred by earlier pages go first, then candidates in feed order.
+ * Entries that don't fit are deferred to later pages; once the candidates run
+ * out the page is filled with the best deferred entries.
+ */
+export async function fillPage(
+  carried: FeedEntry[],
+  candidates: AsyncIterator<FeedCandidate>,
+  pageSize: number
+): Promise<{ entries: FeedEntry[]; deferred: FeedEntry[]; last?: FeedCandidate; exhausted: boolean }> {
+  const entries: FeedEntry[] = [];
+  const deferred: FeedEntry[] = [];
+  const perCollection = new Map<string, number>();
+  const perCreator = new Map<string, number>();
+
+  const fits = (entry: FeedEntry) =>
+    entries.length < pageSize &&
+    (perCollection.get(entry.collectionId) || 0) < MAX_PER_COLLECTION &&
+    (!entry.submitterId || (perCreator.get(entry.submitterId) || 0) < MAX_PER_CREATOR);
+
+  const add = (entry: FeedEntry) => {
+    entries.push(entry);
+    perCollection.set(entry.collectionId, (perCollection.get(entry.collectionId) || 0) + 1);
+    if (entry.submitterId) perCreator.set(entry.submitterId, (perCreator.get(entry.submitterId) || 0) + 1);
+  };
+
+  for (const entry of carried) {
+    if (fits(entry)) add(entry);
+    else deferred.push(entry);
+  }
+
+  let last: FeedCandidate | undefined;
+  let exhausted = false;
+
+  while (entries.length < pageSize) {
+    const next = await candidates.next();
+    if (next.done) {
+      exhausted = true;
+      break;
+    }
+
+    last = next.value;
+    if (fits(last.entry) || deferred.length >= MAX_DEFERRED) add(last.entry);
+    else deferred.push(last.entry);
+  }
+
+  if (exhausted) {
+    entries.push(...deferred.splice(0, pageSize - entries.length));
+  }
+
+  return { entries, deferred, last, exhausted };
+}
+
+export function encodeCursor(cursor: FeedCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(cursor?: string): FeedCursor | null {
+  if (!cursor) return null;
+
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const valid =
+      (decoded.ph === 'ranked' || decoded.ph === 'trending') &&
+      typeof decoded.s === 'number' &&
+      typeof decoded.p === 'string' &&
+      Array.isArray(decoded.d) &&
+      decoded.d.length <= MAX_DEFERRED &&
+      decoded.d.every((path: unknown) => typeof path === 'string' && /^explore_collections\/[^/]+\/entries\/[^/]+$/.test(path));
+    return valid ? decoded : null;
+  } catch {
+    return null;
+  }
+}
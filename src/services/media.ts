@@ -0,0 +1,306 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { encode as encodeBlurhash } from 'blurhash';
+import { File } from '@google-cloud/storage';
+import { getFirestore, getStorage } from '../lib/firebase.js';
+import { MediaUploadInput, MEDIA_CONTENT_TYPES } from '../lib/validation.js';
+import admin from 'firebase-admin';
+
+const MAX_FILE_SIZE_BYTES = (Number(process.env.MAX_FILE_SIZE_MB) || 20) * 1024 * 1024;
+const UPLOAD_URL_TTL_MS = 15 * 60 * 1000;
+
+// Formats sharp must detect in the uploaded bytes (the declared content type is not trusted)
+const ALLOWED_FORMATS = ['jpeg', 'png', 'webp'];
+
+// Generated variants, all WebP, never enlarged beyond the original
+const VARIANTS = [
+  { name: 'thumb', width: 320 },
+  { name: 'small', width: 640 },
+  { name: 'medium', width: 1080 },
+  { name: 'large', width: 1600 },
+] as const;
+
+export interface MediaVariant {
+  url: string;
+  width: number;
+  height: number;
+}
+
+export interface MediaItem {
+  id: string;
+  userId: string;
+  status: 'awaiting_upload' | 'ready' | 'rejected';
+  url?: string; // Largest variant
+  thumbUrl?: string;
+  blurhash?: string;
+  width?: number;
+  height?: number;
+  variants?: Record<string, MediaVariant>;
+  rejectionReason?: string;
+}
+
+export class MediaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MediaError';
+  }
+}
+
+export class MediaService {
+  private db = getFirestore();
+  private bucket = getStorage().bucket(process.env.MEDIA_BUCKET);
+
+  /**
+   * Create media records and signed upload URLs for a set of files
+   */
+  async createUploadSession(userId: string, input: MediaUploadInput) {
+    const oversized = input.files.find(file => file.size > MAX_FILE_SIZE_BYTES);
+    if (oversized) {
+      throw new MediaError(`Files must be at most ${MAX_FILE_SIZE_BYTES / 1024 / 1024}MB`);
+    }
+
+    const sessionRef = this.db.collection('explore_upload_sessions').doc();
+    const expiresAt = new Date(Date.now() + UPLOAD_URL_TTL_MS);
+    const batch = this.db.batch();
+
+    const uploads = await Promise.all(input.files.map(async (file) => {
+      const mediaRef = this.db.collection('explore_media').doc();
+      const originalPath = `uploads/${userId}/${mediaRef.id}/original`;
+
+      const [uploadUrl] = await this.bucket.file(originalPath).getSignedUrl({
+        version: 'v4',
+        action: 'write',
+        expires: expiresAt,
+        contentType: file.contentType,
+      });
+
+      batch.set(mediaRef, {
+        userId,
+        sessionId: sessionRef.id,
+        status: 'awaiting_upload',
+        contentType: file.contentType,
+        declaredSize: file.size,
+        filename: file.filename || null,
+        originalPath,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      return {
+        mediaId: mediaRef.id,
+        uploadUrl,
+        method: 'PUT',
+        headers: { 'Content-Type': file.contentType },
+      };
+    }));
+
+    batch.set(sessionRef, {
+      userId,
+      mediaIds: uploads.map(u => u.mediaId),
+      status: 'open',
+      expiresAt,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    await batch.commit();
+
+    console.log(`[Media] Created upload session ${sessionRef.id} for ${userId} (${uploads.length} files)`);
+
+    return { sessionId: sessionRef.id, expiresAt, uploads };
+  }
+
+  /**
+   * Validate uploaded files and generate their variants
+   * Returns null when the session doesn't exist or isn't owned by the user
+   * Throws MediaError when the session has expired
+   */
+  async completeUploadSession(userId: string, sessionId: string): Promise<MediaItem[] | null> {
+    const sessionRef = this.db.collection('explore_upload_sessions').doc(sessionId);
+    const sessionDoc = await sessionRef.get();
+
+    if (!sessionDoc.exists || sessionDoc.data()?.userId !== userId) {
+      return null;
+    }
+
+    const expiresAt: Date | undefined = sessionDoc.data()!.expiresAt?.toDate();
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw new MediaError('Upload session has expired; start a new one');
+    }
+
+    const mediaIds: string[] = sessionDoc.data()!.mediaIds;
+    const items: MediaItem[] = [];
+
+    // Sequential to keep memory bounded while resizing large images
+    for (const mediaId of mediaIds) {
+      items.push(await this.processMedia(mediaId));
+    }
+
+    await sessionRef.update({
+      status: 'completed',
+      completedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    return items;
+  }
+
+  async getMedia(mediaId: string, userId: string): Promise<MediaItem | null> {
+    const doc = await this.db.collection('explore_media').doc(mediaId).get();
+
+    if (!doc.exists || doc.data()?.userId !== userId) {
+      return null;
+    }
+
+    return this.toMediaItem(doc);
+  }
+
+  /**
+   * Load processed media for a submission, in the given order
+   * Throws MediaError if any item is missing, not owned by the user or not ready
+   */
+  async resolveMedia(userId: string, mediaIds: string[]): Promise<MediaItem[]> {
+    const refs = mediaIds.map(id => this.db.collection('explore_media').doc(id));
+    const docs = refs.length > 0 ? await this.db.getAll(...refs) : [];
+
+    return docs.map((doc) => {
+      const data = doc.data();
+      if (!doc.exists || data?.userId !== userId) {
+        throw new MediaError(`Media ${doc.id} not found`);
+      }
+      if (data.status !== 'ready') {
+        throw new MediaError(`Media ${doc.id} is not ready (${data.status})`);
+      }
+      return this.toMediaItem(doc);
+    });
+  }
+
+  private async processMedia(mediaId: string): Promise<MediaItem> {
+    const mediaRef = this.db.collection('explore_media').doc(mediaId);
+    const mediaDoc = await mediaRef.get();
+    const data = mediaDoc.data()!;
+
+    if (data.status !== 'awaiting_upload') {
+      return this.toMediaItem(mediaDoc);
+    }
+
+    const original = this.bucket.file(data.originalPath);
+
+    try {
+      const [exists] = await original.exists();
+      if (!exists) {
+        return this.rejectMedia(mediaRef, 'File was not uploaded');
+      }
+
+      const [metadata] = await original.getMetadata();
+      const size = Number(metadata.size);
+      if (size > MAX_FILE_SIZE_BYTES) {
+        return this.rejectMedia(mediaRef, 'File exceeds maximum size', original);
+      }
+      if (!(MEDIA_CONTENT_TYPES as readonly string[]).includes(String(metadata.contentType))) {
+        return this.rejectMedia(mediaRef, 'Unsupported content type', original);
+      }
+
+      const [buffer] = await original.download();
+      const image = sharp(buffer).rotate(); // Apply EXIF orientation
+      const info = await image.metadata();
+
+      if (!info.format || !ALLOWED_FORMATS.includes(info.format)) {
+        return this.rejectMedia(mediaRef, 'File is not a supported image', original);
+      }
+
+      const variants: Record<string, MediaVariant> = {};
+      for (const variant of VARIANTS) {
+        const { data: output, info: outputInfo } = await image
+          .clone()
+          .resize({ width: variant.width, withoutEnlargement: true })
+          .webp({ quality: 82 })
+          .toBuffer({ resolveWithObject: true });
+
+        variants[variant.name] = {
+          url: await this.uploadVariant(`media/${mediaId}/${variant.name}.webp`, output),
+          width: outputInfo.width,
+          height: outputInfo.height,
+        };
+      }
+
+      const blurhash = await computeBlurhash(image.clone());
+
+      await mediaRef.update({
+        status: 'ready',
+        size,
+        format: info.format,
+        width: variants.large.width,
+        height: variants.large.height,
+        url: variants.large.url,
+        thumbUrl: variants.thumb.url,
+        variants,
+        blurhash,
+        processedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      console.log(`[Media] Processed ${mediaId} (${info.format}, ${info.width}x${info.height})`);
+      return this.toMediaItem(await mediaRef.get());
+    } catch (error) {
+      console.error(`[Media] Failed to process ${mediaId}:`, error);
+      return this.rejectMedia(mediaRef, 'Image could not be processed', original);
+    }
+  }
+
+  private async uploadVariant(path: string, data: Buffer): Promise<string> {
+    const token = crypto.randomUUID();
+
+    await this.bucket.file(path).save(data, {
+      contentType: 'image/webp',
+      metadata: {
+        cacheControl: 'public, max-age=31536000, immutable',
+        metadata: { firebaseStorageDownloadTokens: token },
+      },
+    });
+
+    return `https://firebasestorage.googleapis.com/v0/b/${this.bucket.name}/o/` +
+      `${encodeURIComponent(path)}?alt=media&token=${token}`;
+  }
+
+  private async rejectMedia(
+    mediaRef: admin.firestore.DocumentReference,
+    reason: string,
+    original?: File
+  ): Promise<MediaItem> {
+    await mediaRef.update({
+      status: 'rejected',
+      rejectionReason: reason,
+      processedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    if (original) {
+      await original.delete({ ignoreNotFound: true });
+    }
+
+    console.warn(`[Media] Rejected ${mediaRef.id}: ${reason}`);
+    return this.toMediaItem(await mediaRef.get());
+  }
+
+  private toMediaItem(doc: admin.firestore.DocumentSnapshot): MediaItem {
+    const data = doc.data()!;
+
+    return {
+      id: doc.id,
+      userId: data.userId,
+      status: data.status,
+      url: data.url,
+      thumbUrl: data.thumbUrl,
+      blurhash: data.blurhash,
+      width: data.width,
+      height: data.height,
+      variants: data.variants,
+      rejectionReason: data.rejectionReason,
+    };
+  }
+}
+
+async function computeBlurhash(image: sharp.Sharp): Promise<string> {
+  const { data, info } = await image
+    .resize(32, 32, { fit: 'inside' })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  return encodeBlurhash(new Uint8ClampedArray(data), info.width, info.height, 4, 3);
+}
@@ -0,0 +1,311 @@
+import { getFirestore } from '../lib/firebase.js';
+import { BulkModerationInput } from '../lib/validation.js';
+import { SubmissionService } from './submissions.js';
+import { recordAuditEvent } from './audit-log.js';
+import { enqueueNotification } from './notifications.js';
+import { enqueueWebhookEvent } from './webhooks.js';
+import admin from 'firebase-admin';
+
+const BATCHES_COLLECTION = 'moderation_batches';
+
+// How long an undo holds the batch before another one may take over
+const UNDO_LEASE_MS = 5 * 60 * 1000;
+
+export interface BatchItemResult {
+  submissionId: string;
+  success: boolean;
+  entryId?: string;
+  error?: string;
+}
+
+export interface ModerationBatch {
+  id: string;
+  action: 'approve' | 'reject';
+  moderatorId: string;
+  collectionId: string | null;
+  reason: string | null;
+  status: 'applying' | 'applied' | 'undoing' | 'undone';
+  results: BatchItemResult[];
+  succeeded: number;
+  failed: number;
+  createdAt: Date;
+  undoneAt: Date | null;
+  undoneBy: string | null;
+  undoResults: BatchItemResult[];
+}
+
+export class ModerationBatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModerationBatchError';
+  }
+}
+
+export class ModerationBatchService {
+  private db = getFirestore();
+  private submissionService = new SubmissionService();
+
+  /**
+   * Approve or reject several submissions. Each item runs in its own
+   * transaction, so one conflict doesn't fail the rest. The batch is recorded
+   * before the items, so a run that dies midway can still be found and undone.
+   */
+  async applyBatch(moderatorId: string, input: BulkModerationInput): Promise<ModerationBatch> {
+    const batchRef = this.db.collection(BATCHES_COLLECTION).doc();
+    const results: BatchItemResult[] = [];
+
+    await batchRef.set({
+      action: input.action,
+      moderatorId,
+      collectionId: input.action === 'approve' ? input.collectionId : null,
+      reason: input.action === 'reject' ? input.reason : null,
+      status: 'applying',
+      results: [],
+      submissionIds: input.submissionIds,
+      succeeded: 0,
+      failed: 0,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      undoneAt: null,
+      undoneBy: null,
+      undoStartedAt: null,
+      undoResults: [],
+    });
+
+    for (const submissionId of input.submissionIds) {
+      try {
+        if (input.action === 'approve') {
+          const entryId = await this.submissionService.approveSubmission(
+            submissionId,
+            moderatorId,
+            input.collectionId,
+            input.trendScore,
+            { batchId: batchRef.id }
+          );
+          results.push(entryId
+            ? { submissionId, success: true, entryId }
+            : { submissionId, success: false, error: 'Submission not found' });
+        } else {
+          const rejected = await this.submissionService.rejectSubmission(
+            submissionId,
+            moderatorId,
+            input.reason,
+            { batchId: batchRef.id }
+          );
+          results.push(rejected
+            ? { submissionId, success: true }
+            : { submissionId, success: false, error: 'Submission not found' });
+        }
+      } catch (error: any) {
+        const expected = ['SubmissionConflictError', 'CollectionNotFoundError'].includes(error.name);
+        if (!expected) {
+          console.error(`[ModerationBatch] Failed to ${input.action} ${submissionId}:`, error);
+        }
+        results.push({
+          submissionId,
+          success: false,
+          error: expected ? error.message : `Failed to ${input.action}`,
+        });
+      }
+    }
+
+    const succeeded = results.filter(r => r.success).length;
+
+    await batchRef.update({
+      status: 'applied',
+      results,
+      succeeded,
+      failed: results.length - succeeded,
+    });
+
+    console.log(
+      `[ModerationBatch] ${batchRef.id}: ${moderatorId} ${input.action}d ` +
+      `${succeeded}/${results.length} submissions`
+    );
+
+    return (await this.getBatch(batchRef.id))!;
+  }
+
+  async getBatch(batchId: string): Promise<ModerationBatch | null> {
+    const doc = await this.db.collection(BATCHES_COLLECTION).doc(batchId).get();
+
+    if (!doc.exists) {
+      return null;
+    }
+
+    return this.toBatch(doc);
+  }
+
+  /**
+   * Return the batch's submissions to the status they had before it, and
+   * remove the entries it created. Items decided again since (appealed,
+   * resubmitted, withdrawn) are left alone and reported as failed.
+   * Returns null when the batch doesn't exist
+   */
+  async undoBatch(batchId: string, moderatorId: string): Promise<ModerationBatch | null> {
+    const batchRef = this.db.collection(BATCHES_COLLECTION).doc(batchId);
+
+    // Take the batch in a transaction so two undos can't run at once, or one
+    // alongside the apply. An apply or undo that died midway can be picked up
+    // once its lease runs out; reverting an item twice is a no-op.
+    const batch = await this.db.runTransaction(async (transaction) => {
+      const data = (await transaction.get(batchRef)).data();
+
+      if (!data) {
+        return null;
+      }
+      if (data.status === 'undone') {
+        throw new ModerationBatchError('Batch has already been undone');
+      }
+      if (data.status === 'applying' && data.createdAt?.toMillis() > Date.now() - UNDO_LEASE_MS) {
+        throw new ModerationBatchError('Batch is still being applied');
+      }
+      if (data.status === 'undoing' && data.undoStartedAt?.toMillis() > Date.now() - UNDO_LEASE_MS) {
+        throw new ModerationBatchError('Batch is already being undone');
+      }
+
+      transaction.update(batchRef, {
+        status: 'undoing',
+        undoneBy: moderatorId,
+        undoStartedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return data;
+    });
+
+    if (!batch) {
+      return null;
+    }
+
+    // A batch that never finished applying has no results; its items are
+    // recognised by the batch marker on each submission instead
+    const submissionIds: string[] = batch.status === 'applying'
+      ? batch.submissionIds || []
+      : (batch.results as BatchItemResult[]).filter(item => item.success).map(item => item.submissionId);
+    const toStatus = batch.action === 'approve' ? 'approved' : 'rejected';
+    const undoResults: BatchItemResult[] = [];
+
+    for (const submissionId of submissionIds) {
+      try {
+        const reverted = await this.revertItem(submissionId, batchId, toStatus, moderatorId);
+        undoResults.push(reverted
+          ? { submissionId, success: true }
+          : { submissionId, success: false, error: 'Submission changed since the batch' });
+      } catch (error) {
+        console.error(`[ModerationBatch] Failed to undo ${submissionId}:`, error);
+        undoResults.push({ submissionId, success: false, error: 'Failed to undo' });
+      }
+    }
+
+    await batchRef.update({
+      status: 'undone',
+      undoneAt: admin.firestore.FieldValue.serverTimestamp(),
+      undoneBy: moderatorId,
+      undoResults,
+    });
+
+    console.log(
+      `[ModerationBatch] ${batchId} undone by ${moderatorId}: ` +
+      `${undoResults.filter(r => r.success).length}/${undoResults.length} reverted`
+    );
+
+    return this.getBatch(batchId);
+  }
+
+  private async revertItem(
+    submissionId: string,
+    batchId: string,
+    batchStatus: string,
+    moderatorId: string
+  ): Promise<boolean> {
+    const submissionRef = this.db.collection('explore_submissions').doc(submissionId);
+
+    return this.db.runTransaction(async (transaction) => {
+      const submissionDoc = await transaction.get(submissionRef);
+      const submission = submissionDoc.data();
+
+      if (!submission || submission.status !== batchStatus || submission.moderationBatch?.id !== batchId) {
+        return false;
+      }
+
+      const previousStatus = submission.moderationBatch.previousStatus;
+      let entryRemoved = false;
+
+      if (submission.approvedEntryId && submission.approvedCollectionId) {
+        const collectionRef = this.db.collection('explore_collections').doc(submission.approvedCollectionId);
+        const entryRef = collectionRef.collection('entries').doc(submission.approvedEntryId);
+
+        if ((await transaction.get(entryRef)).exists) {
+          transaction.delete(entryRef);
+          transaction.set(collectionRef, { entryCount: admin.firestore.FieldValue.increment(-1) }, { merge: true });
+          entryRemoved = true;
+        }
+      }
+
+      transaction.update(submissionRef, {
+        status: previousStatus,
+        reviewedAt: null,
+        reviewedBy: null,
+        rejectionReason: null,
+        approvedEntryId: null,
+        approvedCollectionId: null,
+        moderationBatch: null,
+      });
+
+      recordAuditEvent(transaction, {
+        submissionId,
+        submissionOwnerId: submission.userId,
+        action: 'reverted',
+        actorId: moderatorId,
+        actorType: 'moderator',
+        fromStatus: submission.status,
+        toStatus: previousStatus,
+        reason: 'Bulk action undone',
+        metadata: { batchId, entryId: submission.approvedEntryId || null },
+      });
+
+      // The creator was told about the decision, so tell them it was taken back
+      enqueueNotification(transaction, {
+        userId: submission.userId,
+        type: 'submission_reverted',
+        submissionId,
+        submissionTitle: submission.title,
+      });
+      enqueueWebhookEvent(transaction, 'submission.reverted', {
+        submissionId,
+        submitterId: submission.userId,
+        reviewerId: moderatorId,
+        fromStatus: submission.status,
+        toStatus: previousStatus,
+      });
+      if (entryRemoved) {
+        enqueueWebhookEvent(transaction, 'entry.unpublished', {
+          collectionId: submission.approvedCollectionId,
+          entryId: submission.approvedEntryId,
+          submissionId,
+          submitterId: submission.userId,
+        });
+      }
+
+      return true;
+    });
+  }
+
+  private toBatch(doc: admin.firestore.DocumentSnapshot): ModerationBatch {
+    const data = doc.data()!;
+
+    return {
+      id: doc.id,
+      action: data.action,
+      moderatorId: data.moderatorId,
+      collectionId: data.collectionId,
+      reason: data.reason,
+      status: data.status,
+      results: data.results || [],
+      succeeded: data.succeeded,
+      failed: data.failed,
+      createdAt: data.createdAt?.toDate(),
+      undoneAt: data.undoneAt?.toDate() || null,
+      undoneBy: data.undoneBy,
+      undoResults: data.undoResults || [],
+    };
+  }
+}
@@ -0,0 +1,202 @@
+import { getFirestore } from '../lib/firebase.js';
+import { BudgetSettingsInput, DegradedMode } from '../lib/validation.js';
+import admin from 'firebase-admin';
+
+const COUNTERS_COLLECTION = 'moderation_cost_counters';
+const SETTINGS_DOC = 'moderation_settings/budget';
+
+const COST_ALERT_THRESHOLD = parseFloat(process.env.VISION_API_ALERT_THRESHOLD || '100');
+
+// Budget settings change rarely; don't read them on every submission
+const SETTINGS_CACHE_MS = 60 * 1000;
+
+export interface BudgetSettings {
+  monthlyBudget: number | null; // USD; null = no limit
+  degradedMode: DegradedMode;
+  sampleRate: number; // Share of submissions still moderated in 'sample' mode
+  updatedBy: string | null;
+  updatedAt: Date | null;
+}
+
+export interface BudgetStatus extends BudgetSettings {
+  month: string;
+  monthlyCost: number;
+  exceeded: boolean;
+}
+
+export interface CostCounter {
+  period: string;
+  images: number;
+  cost: number;
+  requests: number;
+}
+
+export interface CostUsage {
+  userId: string | null; // null for requests not made on behalf of a user
+  callerId?: string | null; // Internal API caller, when the request came through /api/internal
+  imageCount: number;
+  estimatedCost: number;
+  provider: string;
+}
+
+const DEFAULT_SETTINGS: BudgetSettings = {
+  monthlyBudget: Number(process.env.VISION_API_MONTHLY_BUDGET) || null,
+  degradedMode: process.env.MODERATION_DEGRADED_MODE === 'sample' ? 'sample' : 'manual_review',
+  sampleRate: Number(process.env.MODERATION_SAMPLE_RATE) || 0.1,
+  updatedBy: null,
+  updatedAt: null,
+};
+
+let cachedSettings: { settings: BudgetSettings; expiresAt: number } | undefined;
+
+/**
+ * Counter periods in UTC: "2025-12" and "2025-12-05"
+ */
+export function costPeriods(date = new Date()): { month: string; day: string } {
+  const day = date.toISOString().slice(0, 10);
+  return { month: day.slice(0, 7), day };
+}
+
+export class ModerationCostService {
+  private db = getFirestore();
+
+  /**
+   * Record moderation spend: a moderation_metrics entry plus increments to the
+   * daily and monthly counters and the month's per-user and per-caller totals
+   */
+  async recordUsage(usage: CostUsage): Promise<void> {
+    const { month, day } = costPeriods();
+    const monthRef = this.db.collection(COUNTERS_COLLECTION).doc(`month_${month}`);
+    const increments = {
+      images: admin.firestore.FieldValue.increment(usage.imageCount),
+      cost: admin.firestore.FieldValue.increment(usage.estimatedCost),
+      requests: admin.firestore.FieldValue.increment(1),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+
+    const batch = this.db.batch();
+    batch.set(this.db.collection('moderation_metrics').doc(), {
+      userId: usage.userId,
+      callerId: usage.callerId || null,
+      imageCount: usage.imageCount,
+      estimatedCost: usage.estimatedCost,
+      timestamp: new Date(),
+      apiService: usage.provider,
+    });
+    batch.set(monthRef, { period: month, granularity: 'month', ...increments }, { merge: true });
+    batch.set(
+      this.db.collection(COUNTERS_COLLECTION).doc(`day_${day}`),
+      { period: day, granularity: 'day', ...increments },
+      { merge: true }
+    );
+    if (usage.userId) {
+      batch.set(monthRef.collection('users').doc(usage.userId), increments, { merge: true });
+    }
+    if (usage.callerId) {
+      batch.set(monthRef.collection('callers').doc(usage.callerId), increments, { merge: true });
+    }
+    await batch.commit();
+
+    const monthlyCost: number = (await monthRef.get()).data()?.cost || 0;
+
+    if (monthlyCost > COST_ALERT_THRESHOLD) {
+      console.warn(
+        `[Moderation] Monthly Vision API cost ($${monthlyCost.toFixed(2)}) ` +
+        `exceeds threshold ($${COST_ALERT_THRESHOLD})`
+      );
+    }
+
+    console.log(
+      `[Moderation] Processed ${usage.imageCount} images for $${usage.estimatedCost.toFixed(4)} ` +
+      `(Monthly total: $${monthlyCost.toFixed(2)})`
+    );
+  }
+
+  async getSettings(): Promise<BudgetSettings> {
+    if (cachedSettings && cachedSettings.expiresAt > Date.now()) {
+      return cachedSettings.settings;
+    }
+
+    const data = (await this.db.doc(SETTINGS_DOC).get()).data();
+    const settings: BudgetSettings = data
+      ? {
+          monthlyBudget: data.monthlyBudget ?? null,
+          degradedMode: data.degradedMode,
+          sampleRate: data.sampleRate,
+          updatedBy: data.updatedBy,
+          updatedAt: data.updatedAt?.toDate() || null,
+        }
+      : DEFAULT_SETTINGS;
+
+    cachedSettings = { settings, expiresAt: Date.now() + SETTINGS_CACHE_MS };
+    return settings;
+  }
+
+  async updateSettings(adminId: string, input: BudgetSettingsInput): Promise<BudgetStatus> {
+    const current = await this.getSettings();
+
+    await this.db.doc(SETTINGS_DOC).set({
+      monthlyBudget: input.monthlyBudget !== undefined ? input.monthlyBudget : current.monthlyBudget,
+      degradedMode: input.degradedMode ?? current.degradedMode,
+      sampleRate: input.sampleRate ?? current.sampleRate,
+      updatedBy: adminId,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    cachedSettings = undefined;
+
+    console.log(`[Moderation] Budget settings updated by ${adminId}`);
+    return this.getBudgetStatus();
+  }
+
+  /**
+   * Current month's spend against the budget
+   */
+  async getBudgetStatus(): Promise<BudgetStatus> {
+    const { month } = costPeriods();
+    const [settings, counter] = await Promise.all([
+      this.getSettings(),
+      this.db.collection(COUNTERS_COLLECTION).doc(`month_${month}`).get(),
+    ]);
+    const monthlyCost: number = counter.data()?.cost || 0;
+
+    return {
+      ...settings,
+      month,
+      monthlyCost,
+      exceeded: settings.monthlyBudget !== null && monthlyCost >= settings.monthlyBudget,
+    };
+  }
+
+  async getCounter(period: string): Promise<CostCounter> {
+    const granularity = period.length === 7 ? 'month' : 'day';
+    const data = (await this.db.collection(COUNTERS_COLLECTION).doc(`${granularity}_${period}`).get()).data();
+
+    return {
+      period,
+      images: data?.images || 0,
+      cost: data?.cost || 0,
+      requests: data?.requests || 0,
+    };
+  }
+
+  /**
+   * Biggest spenders for a month, by user or by internal caller
+   */
+  async getTopSpenders(month: string, by: 'users' | 'callers', limit = 10): Promise<Array<CostCounter & { id: string }>> {
+    const snapshot = await this.db
+      .collection(COUNTERS_COLLECTION)
+      .doc(`month_${month}`)
+      .collection(by)
+      .orderBy('cost', 'desc')
+      .limit(limit)
+      .get();
+
+    return snapshot.docs.map(doc => ({
+      id: doc.id,
+      period: month,
+      images: doc.data().images || 0,
+      cost: doc.data().cost || 0,
+      requests: doc.data().requests || 0,
+    }));
+  }
+}
@@ -0,0 +1,269 @@
+import fs from 'fs';
+import vision from '@google-cloud/vision';
+
+const VISION_API_COST_PER_IMAGE = parseFloat(process.env.VISION_API_COST_PER_IMAGE || '0.0015');
+
+export interface ModerationCategories {
+  adult: number; // 0-1 likelihood
+  violence: number;
+  racy: number;
+  aiGenerated?: number; // Only set by providers that can detect it
+}
+
+export interface ImageModerationResult {
+  safe: boolean;
+  inappropriate: number; // max of adult/violence/racy
+  categories: ModerationCategories;
+  reasons: string[];
+  provider: string;
+  providerVersion: string;
+  cost: number; // USD charged for this image by the provider(s) that ran
+}
+
+/**
+ * A backend that scores a single image for unsafe content.
+ * Implementations throw when the backend is unavailable.
+ */
+export interface ModerationProvider {
+  readonly name: string;
+  readonly version: string;
+  readonly costPerImage: number; // USD, expected per image
+  moderateImage(imageUrl: string): Promise<ImageModerationResult>;
+}
+
+/**
+ * Derive the overall verdict and reasons from category likelihoods
+ */
+export function buildImageResult(
+  provider: Pick<ModerationProvider, 'name' | 'version' | 'costPerImage'>,
+  categories: ModerationCategories,
+  extraReasons: string[] = []
+): ImageModerationResult {
+  const inappropriate = Math.max(categories.adult, categories.violence, categories.racy);
+  const reasons = [...extraReasons];
+
+  if (categories.adult > 0.6) reasons.push('Adult content');
+  if (categories.violence > 0.6) reasons.push('Violence');
+  if (categories.racy > 0.6) reasons.push('Racy content');
+
+  return {
+    safe: inappropriate < 0.5,
+    inappropriate,
+    categories,
+    reasons,
+    provider: provider.name,
+    providerVersion: provider.version,
+    cost: provider.costPerImage,
+  };
+}
+
+/**
+ * Map a SafeSearch likelihood to 0-1. Unknown or missing levels count as
+ * 0.5 (possible); VERY_UNLIKELY must stay 0, so this uses ?? rather than ||.
+ */
+export function safeSearchLikelihood(level: string | null | undefined): number {
+  const map: Record<string, number> = {
+    'VERY_UNLIKELY': 0,
+    'UNLIKELY': 0.2,
+    'POSSIBLE': 0.5,
+    'LIKELY': 0.8,
+    'VERY_LIKELY': 1,
+  };
+  return map[level || 'UNKNOWN'] ?? 0.5;
+}
+
+/**
+ * Google Cloud Vision SafeSearch
+ */
+export class VisionModerationProvider implements ModerationProvider {
+  readonly name = 'vision';
+  readonly version = 'safesearch-v1';
+  readonly costPerImage = VISION_API_COST_PER_IMAGE;
+
+  // Created on first use so the service can start without Google credentials
+  private client?: InstanceType<typeof vision.ImageAnnotatorClient>;
+
+  async moderateImage(imageUrl: string): Promise<ImageModerationResult> {
+    if (!this.client) {
+      this.client = new vision.ImageAnnotatorClient();
+    }
+
+    const [result] = await this.client.safeSearchDetection(imageUrl);
+    const safeSearch = result.safeSearchAnnotation;
+
+    if (!safeSearch) {
+      console.warn('[Moderation] No safe search annotation returned');
+      return {
+        safe: false,
+        inappropriate: 1,
+        categories: { adult: 1, violence: 1, racy: 1 },
+        reasons: ['Unable to analyze image'],
+        provider: this.name,
+        providerVersion: this.version,
+        cost: this.costPerImage,
+      };
+    }
+
+    return buildImageResult(this, {
+      adult: safeSearchLikelihood(String(safeSearch.adult || 'UNKNOWN')),
+      violence: safeSearchLikelihood(String(safeSearch.violence || 'UNKNOWN')),
+      racy: safeSearchLikelihood(String(safeSearch.racy || 'UNKNOWN')),
+    });
+  }
+}
+
+/**
+ * Offline provider for local development and tests.
+ * Looks the URL up in a JSON fixture file (MODERATION_FIXTURES_PATH) mapping
+ * URLs to category likelihoods, then falls back to URL keyword heuristics.
+ */
+export class LocalModerationProvider implements ModerationProvider {
+  readonly name = 'local';
+  readonly version = '1.0';
+  readonly costPerImage = 0;
+
+  private static readonly KEYWORDS: Record<'adult' | 'violence' | 'racy', string[]> = {
+    adult: ['nsfw', 'porn', 'xxx', 'nude'],
+    violence: ['gore', 'blood', 'violence'],
+    racy: ['racy', 'lingerie'],
+  };
+
+  private fixtures: Record<string, Partial<ModerationCategories>>;
+
+  constructor(fixturesPath = process.env.MODERATION_FIXTURES_PATH) {
+    this.fixtures = fixturesPath ? JSON.parse(fs.readFileSync(fixturesPath, 'utf8')) : {};
+  }
+
+  async moderateImage(imageUrl: string): Promise<ImageModerationResult> {
+    const fixture = this.fixtures[imageUrl];
+    if (fixture) {
+      return buildImageResult(this, {
+        adult: fixture.adult ?? 0,
+        violence: fixture.violence ?? 0,
+        racy: fixture.racy ?? 0,
+        aiGenerated: fixture.aiGenerated,
+      });
+    }
+
+    const url = imageUrl.toLowerCase();
+    const score = (keywords: string[]) => (keywords.some(k => url.includes(k)) ? 1 : 0);
+
+    return buildImageResult(this, {
+      adult: score(LocalModerationProvider.KEYWORDS.adult),
+      violence: score(LocalModerationProvider.KEYWORDS.violence),
+      racy: score(LocalModerationProvider.KEYWORDS.racy),
+    });
+  }
+}
+
+/**
+ * Combines several providers:
+ * - 'fallback': use the first provider that succeeds
+ * - 'max': run all providers and keep the highest likelihood per category
+ * costPerImage is the expected cost; each result carries the cost of the
+ * providers that actually answered.
+ */
+export class CompositeModerationProvider implements ModerationProvider {
+  readonly name: string;
+  readonly version: string;
+  readonly costPerImage: number;
+
+  constructor(
+    private providers: ModerationProvider[],
+    private strategy: 'fallback' | 'max' = 'fallback'
+  ) {
+    this.name = `${strategy}(${providers.map(p => p.name).join(',')})`;
+    this.version = providers.map(p => `${p.name}@${p.version}`).join(',');
+    this.costPerImage = strategy === 'max'
+      ? providers.reduce((sum, p) => sum + p.costPerImage, 0)
+      : providers[0]?.costPerImage ?? 0;
+  }
+
+  async moderateImage(imageUrl: string): Promise<ImageModerationResult> {
+    if (this.strategy === 'fallback') {
+      let lastError: unknown;
+      for (const provider of this.providers) {
+        try {
+          return await provider.moderateImage(imageUrl);
+        } catch (error) {
+          console.warn(`[Moderation] Provider ${provider.name} failed, trying next:`, error);
+          lastError = error;
+        }
+      }
+      throw lastError ?? new Error('No moderation providers configured');
+    }
+
+    const settled = await Promise.allSettled(this.providers.map(p => p.moderateImage(imageUrl)));
+    const results = settled
+      .filter((r): r is PromiseFulfilledResult<ImageModerationResult> => r.status === 'fulfilled')
+      .map(r => r.value);
+
+    if (results.length === 0) {
+      throw (settled[0] as PromiseRejectedResult | undefined)?.reason
+        ?? new Error('No moderation providers configured');
+    }
+
+    const combined = buildImageResult(this, {
+      adult: Math.max(...results.map(r => r.categories.adult)),
+      violence: Math.max(...results.map(r => r.categories.violence)),
+      racy: Math.max(...results.map(r => r.categories.racy)),
+      aiGenerated: maxDefined(results.map(r => r.categories.aiGenerated)),
+    }, results.flatMap(r => r.reasons));
+
+    return {
+      ...combined,
+      reasons: [...new Set(combined.reasons)],
+      cost: results.reduce((sum, r) => sum + r.cost, 0),
+    };
+  }
+}
+
+export function maxDefined(values: Array<number | undefined>): number | undefined {
+  const defined = values.filter((v): v is number => v !== undefined);
+  return defined.length > 0 ? Math.max(...defined) : undefined;
+}
+
+const providerFactories = new Map<string, () => ModerationProvider>([
+  ['vision', () => new VisionModerationProvider()],
+  ['local', () => new LocalModerationProvider()],
+]);
+
+/**
+ * Make a provider available to MODERATION_PROVIDERS under the given name
+ */
+export function registerModerationProvider(name: string, factory: () => ModerationProvider): void {
+  providerFactories.set(name, factory);
+  activeProvider = undefined;
+}
+
+let activeProvider: ModerationProvider | undefined;
+
+/**
+ * Resolve the configured provider.
+ * MODERATION_PROVIDERS: comma-separated provider names (default "vision")
+ * MODERATION_STRATEGY: "fallback" (default) or "max" when several are listed
+ */
+export function getModerationProvider(): ModerationProvider {
+  if (activeProvider) return activeProvider;
+
+  const names = (process.env.MODERATION_PROVIDERS || 'vision')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+
+  const providers = names.map((name) => {
+    const factory = providerFactories.get(name);
+    if (!factory) {
+      throw new Error(`Unknown moderation provider: ${name}`);
+    }
+    return factory();
+  });
+
+  const strategy = process.env.MODERATION_STRATEGY === 'max' ? 'max' : 'fallback';
+  activeProvider = providers.length === 1
+    ? providers[0]
+    : new CompositeModerationProvider(providers, strategy);
+
+  console.log(`[Moderation] Using provider: ${activeProvider.name}`);
+  return activeProvider;
+}
@@ -0,0 +1,257 @@
+import { getFirestore } from '../lib/firebase.js';
+import { moderateSubmission, buildModerationFields } from './moderation.js';
+import { recordAuditEvent } from './audit-log.js';
+import { enqueueNotification } from './notifications.js';
+import admin from 'firebase-admin';
+
+const RETRY_BASE_DELAY_MS = (Number(process.env.MODERATION_RETRY_BASE_SECONDS) || 60) * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 3600 * 1000;
+const RETRY_MAX_ATTEMPTS = Number(process.env.MODERATION_RETRY_MAX_ATTEMPTS) || 8;
+
+// How long a worker holds an item before another worker may pick it up
+const RETRY_LEASE_MS = 5 * 60 * 1000;
+
+const QUEUE_COLLECTION = 'moderation_retry_queue';
+
+export interface RetryRunResult {
+  processed: number;
+  resolved: number;
+  rescheduled: number;
+  exhausted: number;
+}
+
+interface RetryWriter {
+  set(ref: admin.firestore.DocumentReference, data: admin.firestore.DocumentData): unknown;
+}
+
+/**
+ * Queue a submission whose moderation failed. Written in the caller's batch or
+ * transaction so the submission and its queue item are created together.
+ */
+export function enqueueModerationRetry(
+  writer: RetryWriter,
+  submissionId: string,
+  userId: string,
+  error: unknown
+): void {
+  const db = getFirestore();
+
+  writer.set(db.collection(QUEUE_COLLECTION).doc(submissionId), {
+    submissionId,
+    userId,
+    status: 'queued',
+    attempts: 0,
+    nextAttemptAt: new Date(Date.now() + RETRY_BASE_DELAY_MS),
+    lastError: describeError(error),
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+export class ModerationRetryService {
+  private db = getFirestore();
+
+  /**
+   * Re-run moderation for due queue items and move their submissions to
+   * pending or flagged. Failed attempts back off exponentially.
+   */
+  async processDue(limit = 20): Promise<RetryRunResult> {
+    const result: RetryRunResult = { processed: 0, resolved: 0, rescheduled: 0, exhausted: 0 };
+
+    const snapshot = await this.db
+      .collection(QUEUE_COLLECTION)
+      .where('status', '==', 'queued')
+      .where('nextAttemptAt', '<=', new Date())
+      .orderBy('nextAttemptAt', 'asc')
+      .limit(limit)
+      .get();
+
+    for (const doc of snapshot.docs) {
+      if (!(await this.lease(doc.ref))) continue;
+      result.processed++;
+
+      const outcome = await this.retry(doc.ref, doc.data());
+      result[outcome]++;
+    }
+
+    console.log(
+      `[ModerationRetry] Processed ${result.processed}: ${result.resolved} resolved, ` +
+      `${result.rescheduled} rescheduled, ${result.exhausted} exhausted`
+    );
+
+    return result;
+  }
+
+  /**
+   * Queue depth for the moderator dashboard
+   */
+  async getStats() {
+    const queue = this.db.collection(QUEUE_COLLECTION);
+
+    const [queued, exhausted, oldest] = await Promise.all([
+      queue.where('status', '==', 'queued').count().get(),
+      queue.where('status', '==', 'exhausted').count().get(),
+      queue.where('status', '==', 'queued').orderBy('createdAt', 'asc').limit(1).get(),
+    ]);
+
+    return {
+      queued: queued.data().count,
+      exhausted: exhausted.data().count,
+      oldestQueuedAt: oldest.docs[0]?.data().createdAt?.toDate() || null,
+    };
+  }
+
+  /**
+   * Push nextAttemptAt past the lease so concurrent workers skip the item
+   */
+  private async lease(ref: admin.firestore.DocumentReference): Promise<boolean> {
+    return this.db.runTransaction(async (transaction) => {
+      const doc = await transaction.get(ref);
+      const data = doc.data();
+
+      if (!doc.exists || data?.status !== 'queued' || data.nextAttemptAt.toDate() > new Date()) {
+        return false;
+      }
+
+      transaction.update(ref, { nextAttemptAt: new Date(Date.now() + RETRY_LEASE_MS) });
+      return true;
+    });
+  }
+
+  private async retry(
+    queueRef: admin.firestore.DocumentReference,
+    item: admin.firestore.DocumentData
+  ): Promise<'resolved' | 'rescheduled' | 'exhausted'> {
+    const submissionRef = this.db.collection('explore_submissions').doc(item.submissionId);
+    const submissionDoc = await submissionRef.get();
+    const submission = submissionDoc.data();
+
+    // Withdrawn or otherwise handled in the meantime
+    if (!submissionDoc.exists || submission?.status !== 'moderation_pending') {
+      await queueRef.delete();
+      return 'resolved';
+    }
+
+    try {
+      const moderation = await moderateSubmission(item.userId, submission.mediaUrls, {
+        title: submission.title,
+        description: submission.description,
+        tags: submission.tags,
+        materials: submission.materials,
+      }, { submissionId: item.submissionId });
+      const status = moderation.safe ? 'pending' : 'flagged';
+
+      // Moderation can take a while; the submission may have been withdrawn
+      // or handled in the meantime, so only move it on if it's still waiting
+      const applied = await this.db.runTransaction(async (transaction) => {
+        const current = (await transaction.get(submissionRef)).data();
+        transaction.delete(queueRef);
+
+        if (current?.status !== 'moderation_pending') return false;
+
+        transaction.update(submissionRef, {
+          status,
+          ...buildModerationFields(moderation),
+          moderationError: null,
+          moderatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        recordAuditEvent(transaction, {
+          submissionId: item.submissionId,
+          submissionOwnerId: item.userId,
+          action: 'moderated',
+          actorId: null,
+          actorType: 'system',
+          fromStatus: 'moderation_pending',
+          toStatus: status,
+          reason: moderation.reasons.join('; ') || null,
+          metadata: { attempts: item.attempts + 1 },
+        });
+        if (status === 'flagged') {
+          enqueueNotification(transaction, {
+            userId: item.userId,
+            type: 'submission_flagged',
+            submissionId: item.submissionId,
+            submissionTitle: current.title,
+          });
+        }
+        return true;
+      });
+
+      if (!applied) {
+        console.log(`[ModerationRetry] ${item.submissionId} left moderation_pending during the retry, result discarded`);
+        return 'resolved';
+      }
+
+      console.log(`[ModerationRetry] ${item.submissionId} moderated after ${item.attempts + 1} retries - status: ${status}`);
+      return 'resolved';
+    } catch (error) {
+      const attempts = item.attempts + 1;
+
+      if (attempts >= RETRY_MAX_ATTEMPTS) {
+        await this.exhaust(queueRef, submissionRef, item, attempts, error);
+        console.error(`[ModerationRetry] Giving up on ${item.submissionId} after ${attempts} attempts`);
+        return 'exhausted';
+      }
+
+      const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempts, RETRY_MAX_DELAY_MS);
+      await queueRef.update({
+        attempts,
+        nextAttemptAt: new Date(Date.now() + delay),
+        lastError: describeError(error),
+      });
+      return 'rescheduled';
+    }
+  }
+
+  /**
+   * Stop retrying and send the submission to manual review as flagged, so it
+   * doesn't stay moderation_pending with nothing left to move it on
+   */
+  private async exhaust(
+    queueRef: admin.firestore.DocumentReference,
+    submissionRef: admin.firestore.DocumentReference,
+    item: admin.firestore.DocumentData,
+    attempts: number,
+    error: unknown
+  ): Promise<void> {
+    await this.db.runTransaction(async (transaction) => {
+      const submission = (await transaction.get(submissionRef)).data();
+
+      transaction.update(queueRef, {
+        status: 'exhausted',
+        attempts,
+        lastError: describeError(error),
+        exhaustedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      // Withdrawn while the last attempt ran
+      if (submission?.status !== 'moderation_pending') return;
+
+      transaction.update(submissionRef, {
+        status: 'flagged',
+        moderationError: describeError(error),
+      });
+      recordAuditEvent(transaction, {
+        submissionId: item.submissionId,
+        submissionOwnerId: item.userId,
+        action: 'moderated',
+        actorId: null,
+        actorType: 'system',
+        fromStatus: 'moderation_pending',
+        toStatus: 'flagged',
+        reason: `Automated moderation failed after ${attempts} attempts`,
+        metadata: { attempts },
+      });
+      enqueueNotification(transaction, {
+        userId: item.userId,
+        type: 'submission_flagged',
+        submissionId: item.submissionId,
+        submissionTitle: submission.title,
+      });
+    });
+  }
+}
+
+function describeError(error: unknown): string {
+  const cause = error instanceof Error && error.cause instanceof Error ? `: ${error.cause.message}` : '';
+  return error instanceof Error ? `${error.message}${cause}` : String(error);
+}
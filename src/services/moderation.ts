@@ -1,90 +1,143 @@
-import vision from '@google-cloud/vision';
 import { getFirestore } from '../lib/firebase.js';
+import { computeImageHash, findDuplicates, hashBands, DuplicateCheckResult } from './duplicates.js';
+import { getModerationProvider, maxDefined, ModerationCategories } from './moderation-providers.js';
+import { moderateText, TextModerationInput, TextFinding } from './text-moderation.js';
+import { ModerationCostService } from './moderation-costs.js';
+import { DegradedMode } from '../lib/validation.js';
+import admin from 'firebase-admin';
 
-const client = new vision.ImageAnnotatorClient();
+// Provider recorded on images skipped because the monthly budget was reached
+const UNMODERATED_PROVIDER = 'unmoderated';
 
-// Cost tracking constants
-const VISION_API_COST_PER_IMAGE = parseFloat(process.env.VISION_API_COST_PER_IMAGE || '0.0015');
-const COST_ALERT_THRESHOLD = parseFloat(process.env.VISION_API_ALERT_THRESHOLD || '100');
+// moderation_metrics documents read per query in getModerationStats
+const STATS_PAGE_SIZE = 1000;
+
+export interface ImageEvidence {
+  url: string;
+  safe: boolean;
+  inappropriate: number;
+  categories: ModerationCategories;
+  reasons: string[];
+  provider: string;
+  providerVersion: string;
+  hash: string | null; // Perceptual hash, null if the image couldn't be hashed
+  moderatedAt: Date;
+}
+
+export interface ModerationOptions {
+  // Evidence from an earlier run; images whose URL is unchanged are not analyzed again
+  previousImages?: ModerationFlags['images'];
+  // The submission being re-moderated, so it isn't reported as its own duplicate
+  submissionId?: string;
+  // Internal API caller, for cost attribution
+  callerId?: string;
+}
 
 export interface ModerationResult {
   safe: boolean;
   spam: number; // 0-1 confidence
   inappropriate: number; // 0-1 confidence
+  categories?: ModerationCategories; // Highest likelihood per category across images
+  images?: ImageEvidence[];
+  text?: number; // 0-1 confidence, from title/description/tags/materials
+  textFindings?: TextFinding[];
   reasons: string[];
+  duplicate?: DuplicateCheckResult;
+  imageHashes?: string[]; // Perceptual hashes of the images that could be fetched
   metadata?: {
     imagesProcessed: number;
     estimatedCost: number;
     processingTime: number;
+    provider: string;
+    providerVersion: string;
+    degradedMode?: DegradedMode; // Set when the monthly budget was reached
+    imagesSkipped?: number;
   };
 }
 
 /**
- * Moderate a single image using Vision API SafeSearch
+ * Moderation result as stored on a submission (moderationFlags)
+ */
+export interface ModerationFlags {
+  spam: number;
+  inappropriate: number;
+  text: number;
+  duplicate: number;
+  categories: { adult: number; violence: number; racy: number; aiGenerated: number | null };
+  aiGenerated: boolean | null; // null when no provider assessed it
+  reasons: string[];
+  textFindings: TextFinding[];
+  duplicateOf: { submissionIds: string[]; entryIds: string[] };
+  images: Array<Omit<ImageEvidence, 'categories'> & { categories: ModerationFlags['categories'] }>;
+  provider: string | null;
+  providerVersion: string | null;
+  processingTime: number | null;
+  estimatedCost: number | null;
+  moderatedAt: Date;
+}
+
+/**
+ * Thrown when no moderation provider could analyze an image. Callers must not
+ * treat the content as safe.
+ */
+export class ModerationUnavailableError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'ModerationUnavailableError';
+  }
+}
+
+/**
+ * Moderate a single image using the configured moderation provider
+ * Throws ModerationUnavailableError if the provider fails
  */
 export async function moderateImage(imageUrl: string): Promise<ModerationResult> {
   try {
     console.log('[Moderation] Analyzing image:', imageUrl);
-    const [result] = await client.safeSearchDetection(imageUrl);
-    const safeSearch = result.safeSearchAnnotation;
-
-    if (!safeSearch) {
-      console.warn('[Moderation] No safe search annotation returned');
-      return {
-        safe: false,
-        spam: 0,
-        inappropriate: 1,
-        reasons: ['Unable to analyze image'],
-      };
-    }
-
-    const likelihood = (level: string | null | undefined): number => {
-      const map: Record<string, number> = {
-        'VERY_UNLIKELY': 0,
-        'UNLIKELY': 0.2,
-        'POSSIBLE': 0.5,
-        'LIKELY': 0.8,
-        'VERY_LIKELY': 1,
-      };
-      return map[level || 'UNKNOWN'] || 0.5;
-    };
-
-    const adult = likelihood(String(safeSearch.adult || 'UNKNOWN'));
-    const violence = likelihood(String(safeSearch.violence || 'UNKNOWN'));
-    const racy = likelihood(String(safeSearch.racy || 'UNKNOWN'));
-
-    const inappropriate = Math.max(adult, violence, racy);
-    const reasons: string[] = [];
-
-    if (adult > 0.6) reasons.push('Adult content');
-    if (violence > 0.6) reasons.push('Violence');
-    if (racy > 0.6) reasons.push('Racy content');
+    const startTime = Date.now();
+    const result = await getModerationProvider().moderateImage(imageUrl);
 
     return {
-      safe: inappropriate < 0.5,
+      safe: result.safe,
       spam: 0,
-      inappropriate,
-      reasons,
+      inappropriate: result.inappropriate,
+      categories: result.categories,
+      reasons: result.reasons,
+      images: [{
+        url: imageUrl,
+        safe: result.safe,
+        inappropriate: result.inappropriate,
+        categories: result.categories,
+        reasons: result.reasons,
+        provider: result.provider,
+        providerVersion: result.providerVersion,
+        hash: null,
+        moderatedAt: new Date(),
+      }],
+      metadata: {
+        imagesProcessed: 1,
+        estimatedCost: result.cost,
+        processingTime: Date.now() - startTime,
+        provider: result.provider,
+        providerVersion: result.providerVersion,
+      },
     };
   } catch (error) {
     console.error('[Moderation] Error analyzing image:', imageUrl, error);
     console.error('[Moderation] Error stack:', error instanceof Error ? error.stack : 'No stack');
-    // Return safe=true to allow submission even if moderation fails
-    return {
-      safe: true,
-      spam: 0,
-      inappropriate: 0,
-      reasons: ['Moderation service temporarily unavailable'],
-    };
+    throw new ModerationUnavailableError('Moderation service temporarily unavailable', { cause: error });
   }
 }
 
 /**
  * Moderate multiple images for a submission
+ * Throws ModerationUnavailableError if any image could not be moderated
  */
 export async function moderateSubmission(
   userId: string,
-  mediaUrls: string[]
+  mediaUrls: string[],
+  text: TextModerationInput = {},
+  options: ModerationOptions = {}
 ): Promise<ModerationResult> {
   const startTime = Date.now();
   
@@ -92,37 +145,223 @@ export async function moderateSubmission(
   const recentCount = await checkRecentSubmissionCount(userId);
   const spamScore = Math.min(recentCount / 10, 1); // Flag if >10 in last hour
 
-  // Moderate all images
-  const imageResults = await Promise.all(
-    mediaUrls.map(url => moderateImage(url))
+  // Images skipped over budget are analyzed again next time
+  const previous = new Map(
+    (options.previousImages || [])
+      .filter(image => image.provider !== UNMODERATED_PROVIDER)
+      .map(image => [image.url, image])
   );
+  const changedUrls = mediaUrls.filter(url => !previous.has(url));
+
+  const costService = new ModerationCostService();
+  const budget = changedUrls.length > 0 ? await costService.getBudgetStatus() : null;
+  const degradedMode = budget?.exceeded ? budget.degradedMode : undefined;
+
+  // Over budget, images wait for manual review, or in sample mode a share of
+  // submissions is still analyzed in full. Sampling per submission rather than
+  // per image lets sampled submissions through without a moderator.
+  const sampled = degradedMode === 'sample' && Math.random() < budget!.sampleRate;
+  const moderatedUrls = !degradedMode || sampled ? changedUrls : [];
+  const skippedCount = changedUrls.length - moderatedUrls.length;
+
+  if (degradedMode) {
+    console.warn(
+      `[Moderation] Monthly budget reached ($${budget!.monthlyCost.toFixed(2)}); ` +
+      `${degradedMode} mode skipped ${skippedCount}/${changedUrls.length} images`
+    );
+  }
+
+  // Moderate new images and hash them for duplicate detection
+  const [imageResults, hashResults] = await Promise.all([
+    Promise.all(moderatedUrls.map(url => moderateImage(url))),
+    Promise.allSettled(changedUrls.map(url => computeImageHash(url))),
+  ]);
+
+  hashResults.forEach((r, i) => {
+    if (r.status === 'rejected') {
+      console.warn('[Moderation] Could not hash image:', changedUrls[i], r.reason);
+    }
+  });
+
+  // Evidence for every image in submission order, reusing unchanged ones
+  const images: ImageEvidence[] = mediaUrls.map((url) => {
+    const reused = previous.get(url);
+    if (reused) {
+      return {
+        ...reused,
+        categories: { ...reused.categories, aiGenerated: reused.categories.aiGenerated ?? undefined },
+      };
+    }
 
-  const maxInappropriate = Math.max(...imageResults.map(r => r.inappropriate));
-  const allReasons = imageResults.flatMap(r => r.reasons);
+    const hash = hashResults[changedUrls.indexOf(url)];
+    const hashValue = hash.status === 'fulfilled' ? hash.value : null;
+    const moderated = imageResults[moderatedUrls.indexOf(url)];
+
+    // Never analyzed, so never safe: the submission goes to manual review
+    if (!moderated) {
+      return {
+        url,
+        safe: false,
+        inappropriate: 0,
+        categories: { adult: 0, violence: 0, racy: 0 },
+        reasons: ['Not moderated: monthly moderation budget reached'],
+        provider: UNMODERATED_PROVIDER,
+        providerVersion: degradedMode!,
+        hash: hashValue,
+        moderatedAt: new Date(),
+      };
+    }
+
+    return { ...moderated.images![0], hash: hashValue };
+  });
+
+  const maxInappropriate = Math.max(0, ...images.map(i => i.inappropriate));
+  const allReasons = images.flatMap(i => i.reasons);
+
+  const textResult = moderateText(text);
+  allReasons.push(...textResult.reasons);
 
   if (spamScore > 0.7) {
     allReasons.push('Rapid submission pattern detected');
   }
 
+  const imageHashes = images
+    .map(i => i.hash)
+    .filter((hash): hash is string => !!hash);
+
+  const duplicate = await checkDuplicates(userId, imageHashes, options.submissionId);
+
+  // Reposting another creator's content needs a human look; own repeats are just noted
+  const isRepost = duplicate.score > 0 && !duplicate.ownContentOnly;
+  if (isRepost) {
+    allReasons.push("Possible repost of another creator's content");
+  } else if (duplicate.score > 0) {
+    allReasons.push('Duplicate of an earlier submission');
+  }
+
+  const provider = getModerationProvider();
   const processingTime = Date.now() - startTime;
-  const estimatedCost = mediaUrls.length * VISION_API_COST_PER_IMAGE;
+  // What the providers that answered charged, which with fallbacks isn't
+  // necessarily the primary provider's price
+  const estimatedCost = imageResults.reduce((sum, r) => sum + (r.metadata?.estimatedCost ?? 0), 0);
+
+  if (moderatedUrls.length > 0) {
+    try {
+      await costService.recordUsage({
+        userId,
+        callerId: options.callerId,
+        imageCount: moderatedUrls.length,
+        estimatedCost,
+        provider: provider.name,
+      });
+    } catch (error) {
+      console.error('[Moderation] Failed to track cost:', error);
+      // Don't fail the request if tracking fails
+    }
+  }
 
-  // Log cost tracking
-  await trackModerationCost(userId, mediaUrls.length, estimatedCost);
+  const awaitingReview = images.some(i => i.provider === UNMODERATED_PROVIDER);
 
   return {
-    safe: maxInappropriate < 0.5 && spamScore < 0.7,
+    safe: maxInappropriate < 0.5 && spamScore < 0.7 && textResult.score < 0.5 && !isRepost && !awaitingReview,
     spam: spamScore,
     inappropriate: maxInappropriate,
+    categories: {
+      adult: Math.max(0, ...images.map(i => i.categories.adult)),
+      violence: Math.max(0, ...images.map(i => i.categories.violence)),
+      racy: Math.max(0, ...images.map(i => i.categories.racy)),
+      aiGenerated: maxDefined(images.map(i => i.categories.aiGenerated)),
+    },
+    images,
+    text: textResult.score,
+    textFindings: textResult.findings,
     reasons: [...new Set(allReasons)],
+    duplicate,
+    imageHashes,
     metadata: {
-      imagesProcessed: mediaUrls.length,
+      imagesProcessed: moderatedUrls.length,
       estimatedCost,
       processingTime,
+      provider: provider.name,
+      providerVersion: provider.version,
+      ...(degradedMode && { degradedMode, imagesSkipped: skippedCount }),
     },
   };
 }
 
+/**
+ * Submission document fields derived from a moderation result
+ */
+export function buildModerationFields(result: ModerationResult) {
+  // Firestore rejects undefined values, so optional likelihoods become null
+  const storedCategories = (categories?: ModerationCategories) => ({
+    adult: categories?.adult ?? 0,
+    violence: categories?.violence ?? 0,
+    racy: categories?.racy ?? 0,
+    aiGenerated: categories?.aiGenerated ?? null,
+  });
+  const categories = storedCategories(result.categories);
+
+  const moderationFlags: ModerationFlags = {
+    spam: result.spam,
+    inappropriate: result.inappropriate,
+    text: result.text || 0,
+    duplicate: result.duplicate?.score || 0,
+    categories,
+    aiGenerated: categories.aiGenerated === null ? null : categories.aiGenerated >= 0.5,
+    reasons: result.reasons,
+    textFindings: result.textFindings || [],
+    duplicateOf: {
+      submissionIds: result.duplicate?.matchedSubmissionIds || [],
+      entryIds: result.duplicate?.matchedEntryIds || [],
+    },
+    images: (result.images || []).map(image => ({
+      ...image,
+      categories: storedCategories(image.categories),
+    })),
+    provider: result.metadata?.provider || null,
+    providerVersion: result.metadata?.providerVersion || null,
+    processingTime: result.metadata?.processingTime ?? null,
+    estimatedCost: result.metadata?.estimatedCost ?? null,
+    moderatedAt: new Date(),
+  };
+
+  return {
+    moderationFlags,
+    imageHashes: result.imageHashes || [],
+    imageHashBands: (result.imageHashes || []).flatMap(hashBands),
+  };
+}
+
+/**
+ * Convert Firestore timestamps in stored moderation flags back to Dates
+ */
+export function readModerationFlags(data: any): ModerationFlags | null {
+  if (!data) return null;
+
+  return {
+    ...data,
+    moderatedAt: data.moderatedAt?.toDate?.() ?? data.moderatedAt,
+    images: (data.images || []).map((image: any) => ({
+      ...image,
+      moderatedAt: image.moderatedAt?.toDate?.() ?? image.moderatedAt,
+    })),
+  };
+}
+
+async function checkDuplicates(
+  userId: string,
+  imageHashes: string[],
+  excludeSubmissionId?: string
+): Promise<DuplicateCheckResult> {
+  try {
+    return await findDuplicates(userId, imageHashes, excludeSubmissionId);
+  } catch (error) {
+    console.error('[Moderation] Duplicate check failed:', error);
+    return { score: 0, matchedSubmissionIds: [], matchedEntryIds: [], ownContentOnly: true };
+  }
+}
+
 async function checkRecentSubmissionCount(userId: string): Promise<number> {
   const db = getFirestore();
   const oneHourAgo = new Date(Date.now() - 3600 * 1000);
@@ -137,54 +376,6 @@ async function checkRecentSubmissionCount(userId: string): Promise<number> {
   return snapshot.data().count;
 }
 
-/**
- * Track Vision API usage and costs in Firestore
- */
-async function trackModerationCost(
-  userId: string,
-  imageCount: number,
-  estimatedCost: number
-): Promise<void> {
-  try {
-    const db = getFirestore();
-    await db.collection('moderation_metrics').add({
-      userId,
-      imageCount,
-      estimatedCost,
-      timestamp: new Date(),
-      apiService: 'vision',
-    });
-
-    // Check monthly total and alert if over threshold
-    const thisMonth = new Date();
-    thisMonth.setDate(1);
-    thisMonth.setHours(0, 0, 0, 0);
-
-    const snapshot = await db.collection('moderation_metrics')
-      .where('timestamp', '>=', thisMonth)
-      .get();
-
-    const monthlyTotal = snapshot.docs.reduce((sum, doc) => 
-      sum + (doc.data().estimatedCost || 0), 0
-    );
-
-    if (monthlyTotal > COST_ALERT_THRESHOLD) {
-      console.warn(
-        `[Moderation] Monthly Vision API cost ($${monthlyTotal.toFixed(2)}) ` +
-        `exceeds threshold ($${COST_ALERT_THRESHOLD})`
-      );
-    }
-
-    console.log(
-      `[Moderation] Processed ${imageCount} images for $${estimatedCost.toFixed(4)} ` +
-      `(Monthly total: $${monthlyTotal.toFixed(2)})`
-    );
-  } catch (error) {
-    console.error('[Moderation] Failed to track cost:', error);
-    // Don't fail the request if tracking fails
-  }
-}
-
 /**
  * Get Vision API cost statistics for admin dashboard
  */
@@ -199,29 +390,39 @@ export async function getModerationStats(startDate?: Date, endDate?: Date) {
     query = query.where('timestamp', '<=', endDate);
   }
 
-  const snapshot = await query.limit(1000).get();
-  
+  // Read the whole range in pages, fetching only the fields used here
+  query = query.select('imageCount', 'estimatedCost', 'timestamp');
+
   const stats = {
     totalImages: 0,
     totalCost: 0,
     averageCostPerImage: 0,
-    requestCount: snapshot.size,
+    requestCount: 0,
     byDay: {} as Record<string, { images: number; cost: number }>,
   };
 
-  snapshot.docs.forEach(doc => {
-    const data = doc.data();
-    stats.totalImages += data.imageCount || 0;
-    stats.totalCost += data.estimatedCost || 0;
+  let last: admin.firestore.QueryDocumentSnapshot | undefined;
 
-    // Group by day
-    const date = data.timestamp.toDate().toISOString().split('T')[0];
-    if (!stats.byDay[date]) {
-      stats.byDay[date] = { images: 0, cost: 0 };
-    }
-    stats.byDay[date].images += data.imageCount || 0;
-    stats.byDay[date].cost += data.estimatedCost || 0;
-  });
+  do {
+    const snapshot = await (last ? query.startAfter(last) : query).limit(STATS_PAGE_SIZE).get();
+
+    snapshot.docs.forEach(doc => {
+      const data = doc.data();
+      stats.requestCount++;
+      stats.totalImages += data.imageCount || 0;
+      stats.totalCost += data.estimatedCost || 0;
+
+      // Group by day
+      const date = data.timestamp.toDate().toISOString().split('T')[0];
+      if (!stats.byDay[date]) {
+        stats.byDay[date] = { images: 0, cost: 0 };
+      }
+      stats.byDay[date].images += data.imageCount || 0;
+      stats.byDay[date].cost += data.estimatedCost || 0;
+    });
+
+    last = snapshot.size === STATS_PAGE_SIZE ? snapshot.docs[snapshot.size - 1] : undefined;
+  } while (last);
 
   stats.averageCostPerImage = stats.totalImages > 0 
     ? stats.totalCost / stats.totalImages 
@@ -0,0 +1,97 @@
+import { getMessaging } from '../lib/firebase.js';
+
+// FCM error codes meaning the token will never work again. invalid-argument
+// isn't one: it's also returned for a bad payload, which says nothing about
+// the token.
+const INVALID_TOKEN_CODES = [
+  'messaging/registration-token-not-registered',
+  'messaging/invalid-registration-token',
+];
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  data: Record<string, string>;
+}
+
+export interface PushResult {
+  delivered: number;
+  invalidTokens: string[]; // Tokens the caller should forget
+}
+
+/**
+ * Delivers push notifications to device tokens.
+ * Implementations throw when the backend is unavailable.
+ */
+export interface NotificationTransport {
+  readonly name: string;
+  send(tokens: string[], message: PushMessage): Promise<PushResult>;
+}
+
+/**
+ * Firebase Cloud Messaging
+ */
+export class FcmTransport implements NotificationTransport {
+  readonly name = 'fcm';
+
+  async send(tokens: string[], message: PushMessage): Promise<PushResult> {
+    const response = await getMessaging().sendEachForMulticast({
+      tokens,
+      notification: { title: message.title, body: message.body },
+      data: message.data,
+    });
+
+    const invalidTokens = response.responses
+      .map((r, i) => (r.error && INVALID_TOKEN_CODES.includes(r.error.code) ? tokens[i] : null))
+      .filter((token): token is string => token !== null);
+
+    return { delivered: response.successCount, invalidTokens };
+  }
+}
+
+/**
+ * Offline transport for local development and tests. Logs messages and keeps
+ * them in memory instead of sending them.
+ */
+export class StubTransport implements NotificationTransport {
+  readonly name = 'stub';
+  readonly sent: Array<{ tokens: string[]; message: PushMessage }> = [];
+
+  async send(tokens: string[], message: PushMessage): Promise<PushResult> {
+    this.sent.push({ tokens, message });
+    console.log(`[Notifications] (stub) ${message.title} -> ${tokens.length} devices`);
+    return { delivered: tokens.length, invalidTokens: [] };
+  }
+}
+
+const transportFactories = new Map<string, () => NotificationTransport>([
+  ['fcm', () => new FcmTransport()],
+  ['stub', () => new StubTransport()],
+]);
+
+let activeTransport: NotificationTransport | undefined;
+
+/**
+ * Make a transport available to NOTIFICATION_TRANSPORT under the given name
+ */
+export function registerNotificationTransport(name: string, factory: () => NotificationTransport): void {
+  transportFactories.set(name, factory);
+  activeTransport = undefined;
+}
+
+/**
+ * Resolve the configured transport: NOTIFICATION_TRANSPORT ("fcm" by default, or "stub")
+ */
+export function getNotificationTransport(): NotificationTransport {
+  if (activeTransport) return activeTransport;
+
+  const name = process.env.NOTIFICATION_TRANSPORT || 'fcm';
+  const factory = transportFactories.get(name);
+  if (!factory) {
+    throw new Error(`Unknown notification transport: ${name}`);
+  }
+
+  activeTransport = factory();
+  console.log(`[Notifications] Using transport: ${activeTransport.name}`);
+  return activeTransport;
+}
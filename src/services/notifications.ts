@@ -0,0 +1,343 @@
+import crypto from 'crypto';
+import { getFirestore } from '../lib/firebase.js';
+import { NotificationFilter } from '../lib/validation.js';
+import { getNotificationTransport } from './notification-transports.js';
+import admin from 'firebase-admin';
+
+const OUTBOX_COLLECTION = 'notification_outbox';
+const APP_BASE_URL = process.env.APP_BASE_URL || '';
+
+const DISPATCH_BASE_DELAY_MS = 30 * 1000;
+const DISPATCH_MAX_ATTEMPTS = 5;
+
+// How long a dispatcher holds an item before another one may pick it up
+const DISPATCH_LEASE_MS = 2 * 60 * 1000;
+
+export type NotificationType =
+  | 'submission_approved'
+  | 'submission_rejected'
+  | 'submission_flagged'
+  | 'submission_withdrawn'
+  | 'submission_reverted';
+
+export interface NotificationEvent {
+  userId: string;
+  type: NotificationType;
+  submissionId: string;
+  submissionTitle: string;
+  rejectionReason?: string | null;
+  collectionId?: string | null;
+  entryId?: string | null;
+}
+
+export interface Notification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  link: string;
+  submissionId: string;
+  read: boolean;
+  createdAt: Date;
+  readAt: Date | null;
+}
+
+export interface DispatchRunResult {
+  processed: number;
+  sent: number;
+  rescheduled: number;
+  failed: number;
+}
+
+// Both WriteBatch and Transaction satisfy this
+interface OutboxWriter {
+  set(ref: admin.firestore.DocumentReference, data: admin.firestore.DocumentData): unknown;
+}
+
+/**
+ * Queue a notification for the submitter. Written in the caller's batch or
+ * transaction so a status change and its notification are committed together.
+ */
+export function enqueueNotification(writer: OutboxWriter, event: NotificationEvent): void {
+  const db = getFirestore();
+
+  writer.set(db.collection(OUTBOX_COLLECTION).doc(), {
+    userId: event.userId,
+    type: event.type,
+    submissionId: event.submissionId,
+    submissionTitle: event.submissionTitle,
+    rejectionReason: event.rejectionReason || null,
+    collectionId: event.collectionId || null,
+    entryId: event.entryId || null,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: new Date(),
+    lastError: null,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * Title, body and deep link shown to the submitter
+ */
+export function renderNotification(event: NotificationEvent) {
+  const title = `"${event.submissionTitle}"`;
+  const submissionLink = `${APP_BASE_URL}/explore/submissions/${event.submissionId}`;
+
+  switch (event.type) {
+    case 'submission_approved':
+      return {
+        title: 'Your submission is live',
+        body: `${title} was approved and is now on Explore.`,
+        link: `${APP_BASE_URL}/explore/collections/${event.collectionId}/entries/${event.entryId}`,
+      };
+    case 'submission_rejected':
+      return {
+        title: 'Your submission was not approved',
+        body: `${title} was not approved: ${event.rejectionReason}. You can edit and resubmit it, or appeal the decision.`,
+        link: submissionLink,
+      };
+    case 'submission_flagged':
+      return {
+        title: 'Your submission needs a closer look',
+        // Moderation reasons stay on the submission for moderators; they
+        // can name internal signals and don't belong in a push
+        body: `${title} needs a quick review by our team before it can go live. ` +
+          'We\'ll let you know once a moderator has reviewed it.',
+        link: submissionLink,
+      };
+    case 'submission_withdrawn':
+      return {
+        title: 'Submission withdrawn',
+        body: `${title} was withdrawn and won't be reviewed.`,
+        link: submissionLink,
+      };
+    case 'submission_reverted':
+      return {
+        title: 'Your submission is back in review',
+        body: `${title} is being reviewed again. We'll let you know once a moderator has decided.`,
+        link: submissionLink,
+      };
+  }
+}
+
+export class NotificationService {
+  private db = getFirestore();
+
+  private userRef(userId: string) {
+    return this.db.collection('user_explore_preferences').doc(userId);
+  }
+
+  /**
+   * Deliver due outbox items: store the in-app notification, then push to the
+   * user's devices. Failed pushes back off exponentially.
+   */
+  async dispatchDue(limit = 50): Promise<DispatchRunResult> {
+    const result: DispatchRunResult = { processed: 0, sent: 0, rescheduled: 0, failed: 0 };
+
+    const snapshot = await this.db
+      .collection(OUTBOX_COLLECTION)
+      .where('status', '==', 'pending')
+      .where('nextAttemptAt', '<=', new Date())
+      .orderBy('nextAttemptAt', 'asc')
+      .limit(limit)
+      .get();
+
+    for (const doc of snapshot.docs) {
+      if (!(await this.lease(doc.ref))) continue;
+      result.processed++;
+
+      const outcome = await this.deliver(doc.ref, doc.data() as NotificationEvent & { attempts: number });
+      result[outcome]++;
+    }
+
+    console.log(
+      `[Notifications] Dispatched ${result.processed}: ${result.sent} sent, ` +
+      `${result.rescheduled} rescheduled, ${result.failed} failed`
+    );
+
+    return result;
+  }
+
+  async listNotifications(
+    userId: string,
+    params: NotificationFilter
+  ): Promise<{ notifications: Notification[]; nextCursor?: string; unreadCount: number }> {
+    const collection = this.userRef(userId).collection('notifications');
+    let query = collection.orderBy('createdAt', 'desc').limit(params.limit + 1);
+
+    if (params.unreadOnly) {
+      query = query.where('read', '==', false);
+    }
+
+    if (params.cursor) {
+      const cursorDoc = await collection.doc(params.cursor).get();
+      if (cursorDoc.exists) {
+        query = query.startAfter(cursorDoc);
+      }
+    }
+
+    const [snapshot, unread] = await Promise.all([
+      query.get(),
+      collection.where('read', '==', false).count().get(),
+    ]);
+    const docs = snapshot.docs.slice(0, params.limit);
+
+    return {
+      notifications: docs.map(doc => this.toNotification(doc)),
+      nextCursor: snapshot.docs.length > params.limit ? docs[docs.length - 1].id : undefined,
+      unreadCount: unread.data().count,
+    };
+  }
+
+  /**
+   * Returns false when the notification doesn't exist
+   */
+  async markRead(userId: string, notificationId: string): Promise<boolean> {
+    const ref = this.userRef(userId).collection('notifications').doc(notificationId);
+    const doc = await ref.get();
+
+    if (!doc.exists) {
+      return false;
+    }
+
+    if (!doc.data()?.read) {
+      await ref.update({ read: true, readAt: admin.firestore.FieldValue.serverTimestamp() });
+    }
+    return true;
+  }
+
+  async markAllRead(userId: string): Promise<number> {
+    const snapshot = await this.userRef(userId)
+      .collection('notifications')
+      .where('read', '==', false)
+      .get();
+
+    // Batches hold at most 500 writes
+    for (let i = 0; i < snapshot.docs.length; i += 500) {
+      const batch = this.db.batch();
+      snapshot.docs.slice(i, i + 500).forEach((doc) => {
+        batch.update(doc.ref, { read: true, readAt: admin.firestore.FieldValue.serverTimestamp() });
+      });
+      await batch.commit();
+    }
+
+    return snapshot.size;
+  }
+
+  async registerDevice(userId: string, token: string, platform: string): Promise<void> {
+    await this.deviceRef(userId, token).set({
+      token,
+      platform,
+      registeredAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+
+  async removeDevice(userId: string, token: string): Promise<boolean> {
+    const ref = this.deviceRef(userId, token);
+    const doc = await ref.get();
+
+    if (!doc.exists) {
+      return false;
+    }
+
+    await ref.delete();
+    return true;
+  }
+
+  private deviceRef(userId: string, token: string) {
+    // Tokens are long and opaque, so they're keyed by hash
+    const id = crypto.createHash('sha256').update(token).digest('hex').slice(0, 40);
+    return this.userRef(userId).collection('devices').doc(id);
+  }
+
+  /**
+   * Push nextAttemptAt past the lease so concurrent dispatchers skip the item
+   */
+  private async lease(ref: admin.firestore.DocumentReference): Promise<boolean> {
+    return this.db.runTransaction(async (transaction) => {
+      const doc = await transaction.get(ref);
+      const data = doc.data();
+
+      if (!doc.exists || data?.status !== 'pending' || data.nextAttemptAt.toDate() > new Date()) {
+        return false;
+      }
+
+      transaction.update(ref, { nextAttemptAt: new Date(Date.now() + DISPATCH_LEASE_MS) });
+      return true;
+    });
+  }
+
+  private async deliver(
+    outboxRef: admin.firestore.DocumentReference,
+    item: NotificationEvent & { attempts: number }
+  ): Promise<'sent' | 'rescheduled' | 'failed'> {
+    const message = renderNotification(item);
+
+    try {
+      // Keyed by the outbox ID so retries don't create duplicates
+      await this.userRef(item.userId).collection('notifications').doc(outboxRef.id).create({
+        type: item.type,
+        ...message,
+        submissionId: item.submissionId,
+        read: false,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        readAt: null,
+      }).catch((error) => {
+        if (error.code !== 6) throw error; // 6 = ALREADY_EXISTS
+      });
+
+      const devices = await this.userRef(item.userId).collection('devices').get();
+      const tokens = devices.docs.map(doc => doc.data().token as string);
+
+      if (tokens.length > 0) {
+        const push = await getNotificationTransport().send(tokens, {
+          title: message.title,
+          body: message.body,
+          data: { type: item.type, submissionId: item.submissionId, link: message.link },
+        });
+
+        await Promise.all(push.invalidTokens.map(token => this.deviceRef(item.userId, token).delete()));
+      }
+
+      await outboxRef.update({
+        status: 'sent',
+        sentAt: admin.firestore.FieldValue.serverTimestamp(),
+        deviceCount: tokens.length,
+      });
+      return 'sent';
+    } catch (error) {
+      const attempts = item.attempts + 1;
+      const lastError = error instanceof Error ? error.message : String(error);
+      console.error(`[Notifications] Failed to deliver ${outboxRef.id} (attempt ${attempts}):`, error);
+
+      if (attempts >= DISPATCH_MAX_ATTEMPTS) {
+        await outboxRef.update({ status: 'failed', attempts, lastError });
+        return 'failed';
+      }
+
+      await outboxRef.update({
+        attempts,
+        nextAttemptAt: new Date(Date.now() + DISPATCH_BASE_DELAY_MS * 2 ** attempts),
+        lastError,
+      });
+      return 'rescheduled';
+    }
+  }
+
+  private toNotification(doc: admin.firestore.DocumentSnapshot): Notification {
+    const data = doc.data()!;
+
+    return {
+      id: doc.id,
+      type: data.type,
+      title: data.title,
+      body: data.body,
+      link: data.link,
+      submissionId: data.submissionId,
+      read: data.read,
+      createdAt: data.createdAt?.toDate(),
+      readAt: data.readAt?.toDate() || null,
+    };
+  }
+}
@@ -0,0 +1,121 @@
+import { getAuth, getFirestore } from '../lib/firebase.js';
+import { Role, rolesFromClaims, permissionsFor } from '../lib/permissions.js';
+import admin from 'firebase-admin';
+
+const ROLE_AUDIT_COLLECTION = 'role_audit_log';
+
+export interface UserRoles {
+  uid: string;
+  email: string | null;
+  roles: Role[];
+  permissions: string[];
+}
+
+export class RoleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RoleError';
+  }
+}
+
+export class RoleService {
+  private auth = getAuth();
+  private db = getFirestore();
+
+  /**
+   * Returns null when the user doesn't exist
+   */
+  async getUserRoles(uid: string): Promise<UserRoles | null> {
+    const user = await this.getUser(uid);
+    return user ? this.toUserRoles(user) : null;
+  }
+
+  async grantRole(uid: string, role: Role, grantedBy: string): Promise<UserRoles | null> {
+    return this.updateRoles(uid, grantedBy, 'granted', role);
+  }
+
+  /**
+   * Admins can't revoke their own admin role, so there's always someone left
+   * who can manage roles. The user's refresh tokens are revoked so the role
+   * can't outlive the current session.
+   */
+  async revokeRole(uid: string, role: Role, revokedBy: string): Promise<UserRoles | null> {
+    if (role === 'user') {
+      throw new RoleError('The user role cannot be revoked');
+    }
+    if (role === 'admin' && uid === revokedBy) {
+      throw new RoleError('Admins cannot revoke their own admin role');
+    }
+
+    return this.updateRoles(uid, revokedBy, 'revoked', role);
+  }
+
+  /**
+   * Rewrite the user's claims with the new `roles` array, dropping the legacy
+   * `role`/`admin`/`moderator` claims. Other custom claims are kept.
+   * Grants reach the user's ID token on its next refresh (within an hour).
+   * Every change is recorded in role_audit_log.
+   */
+  private async updateRoles(
+    uid: string,
+    actorId: string,
+    action: 'granted' | 'revoked',
+    role: Role
+  ): Promise<UserRoles | null> {
+    const user = await this.getUser(uid);
+    if (!user) {
+      return null;
+    }
+
+    const claims = { ...(user.customClaims || {}) };
+    const before = rolesFromClaims(claims);
+    const roles = new Set(before);
+    if (action === 'granted') roles.add(role);
+    else roles.delete(role);
+    roles.delete('user'); // Implicit for every signed-in user
+
+    delete claims.role;
+    delete claims.admin;
+    delete claims.moderator;
+
+    await this.auth.setCustomUserClaims(uid, { ...claims, roles: [...roles] });
+    if (action === 'revoked') {
+      await this.auth.revokeRefreshTokens(uid);
+    }
+
+    await this.db.collection(ROLE_AUDIT_COLLECTION).add({
+      uid,
+      action,
+      role,
+      actorId,
+      rolesBefore: before.filter(r => r !== 'user'),
+      rolesAfter: [...roles],
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    console.log(`[Roles] ${actorId} ${action} ${role} for ${uid}`);
+
+    return this.getUserRoles(uid);
+  }
+
+  private async getUser(uid: string) {
+    try {
+      return await this.auth.getUser(uid);
+    } catch (error: any) {
+      if (error.code === 'auth/user-not-found') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private toUserRoles(user: { uid: string; email?: string; customClaims?: Record<string, unknown> }): UserRoles {
+    const roles = rolesFromClaims(user.customClaims || {});
+
+    return {
+      uid: user.uid,
+      email: user.email || null,
+      roles,
+      permissions: permissionsFor(roles),
+    };
+  }
+}
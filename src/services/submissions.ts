@@ -1,67 +1,254 @@
 import { getFirestore } from '../lib/firebase.js';
-import { SubmissionInput } from '../lib/validation.js';
-import { moderateSubmission, ModerationResult } from './moderation.js';
+import {
+  SubmissionInput,
+  SubmissionUpdateInput,
+  SubmissionStatusSchema,
+  ModerationQueueQuery,
+} from '../lib/validation.js';
+import {
+  moderateSubmission,
+  buildModerationFields,
+  readModerationFlags,
+  ModerationFlags,
+  ModerationResult,
+  ModerationUnavailableError,
+} from './moderation.js';
+import { enqueueModerationRetry } from './moderation-retry.js';
+import { recordAuditEvent } from './audit-log.js';
+import { enqueueNotification } from './notifications.js';
+import { enqueueWebhookEvent } from './webhooks.js';
+import { MediaService } from './media.js';
+import { newEntryPosition } from './collections.js';
 import admin from 'firebase-admin';
 
+// Statuses waiting for a moderator decision
+const REVIEWABLE_STATUSES: SubmissionStatus[] = ['pending', 'flagged'];
+const CLAIM_LEASE_MS = (Number(process.env.MODERATION_CLAIM_MINUTES) || 15) * 60 * 1000;
+
+// Most documents read for one moderation queue page when skipping claimed items
+const MAX_QUEUE_SCAN = 1000;
+
+// Statuses a creator can edit and resubmit from
+const RESUBMITTABLE_STATUSES: SubmissionStatus[] = ['rejected', 'pending'];
+const MAX_SUBMISSION_VERSIONS = Number(process.env.MAX_SUBMISSION_VERSIONS) || 10;
+
+// Statuses a creator can withdraw from, i.e. not yet decided
+const WITHDRAWABLE_STATUSES: SubmissionStatus[] = ['moderation_pending', 'pending', 'flagged'];
+
+// Content fields kept per version and compared in diffs
+const VERSIONED_FIELDS = [
+  'type',
+  'title',
+  'description',
+  'mediaUrls',
+  'tags',
+  'difficulty',
+  'priceRange',
+  'materials',
+] as const;
+
+export type SubmissionStatus =
+  | 'moderation_pending' // Moderation failed; waiting for retry
+  | 'pending'
+  | 'approved'
+  | 'rejected'
+  | 'flagged'
+  | 'withdrawn';
+
+export interface SubmissionSource {
+  platform: string;
+  externalId: string;
+  permalink?: string | null;
+}
+
+export interface SubmissionMedia {
+  id: string;
+  url: string;
+  thumbUrl: string;
+  blurhash: string;
+  width: number;
+  height: number;
+}
+
 export interface Submission {
   id: string;
   userId: string;
-  status: 'pending' | 'approved' | 'rejected' | 'flagged';
+  status: SubmissionStatus;
   type: string;
   title: string;
   description?: string;
   mediaUrls: string[];
+  mediaIds?: string[];
+  media?: SubmissionMedia[];
   tags: string[];
   difficulty?: string;
   priceRange?: string;
   materials?: string[];
-  moderationFlags: ModerationResult;
+  moderationFlags: ModerationFlags | null;
+  moderationError?: string | null;
   submittedAt: Date;
   reviewedAt?: Date;
   reviewedBy?: string;
   rejectionReason?: string;
   approvedEntryId?: string;
+  source?: SubmissionSource | null;
+  version?: number;
+  previousRejectionReason?: string | null;
+  resubmittedAt?: Date;
+  appealId?: string;
+  appealStatus?: 'open' | 'upheld' | 'overturned' | 'closed';
+  claimedBy?: string | null;
+  claimExpiresAt?: Date | null;
+  excludedReviewerId?: string | null; // Original reviewer of an overturned decision
+}
+
+/**
+ * One changed field between two versions. Array fields report added and
+ * removed values (both empty when only the order changed).
+ */
+export interface SubmissionChange {
+  field: typeof VERSIONED_FIELDS[number];
+  from?: unknown;
+  to?: unknown;
+  added?: string[];
+  removed?: string[];
+}
+
+/**
+ * Thrown when a moderation action conflicts with the submission's current
+ * state (already decided, withdrawn, or claimed by another moderator)
+ */
+export class SubmissionConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubmissionConflictError';
+  }
+}
+
+export interface ReviewOptions {
+  batchId?: string; // Set when the decision is part of a bulk action
+}
+
+export class CollectionNotFoundError extends Error {
+  constructor(collectionId: string) {
+    super(`Collection ${collectionId} does not exist`);
+    this.name = 'CollectionNotFoundError';
+  }
+}
+
+export class SubmissionUpdateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubmissionUpdateError';
+  }
 }
 
 export class SubmissionService {
   private db = getFirestore();
+  private mediaService = new MediaService();
 
   async createSubmission(
     userId: string,
-    input: SubmissionInput
+    input: SubmissionInput,
+    options: { source?: SubmissionSource } = {}
   ): Promise<{ submissionId: string; status: string }> {
-    // Run moderation
-    const moderationFlags = await moderateSubmission(userId, input.mediaUrls);
+    // Resolve managed uploads to their processed URLs
+    const media = input.mediaIds?.length
+      ? await this.mediaService.resolveMedia(userId, input.mediaIds)
+      : [];
+    const mediaUrls = [...input.mediaUrls, ...media.map(m => m.url!)];
+
+    // Run moderation. If it can't run, hold the submission back and retry later
+    let moderation: ModerationResult | null = null;
+    let moderationError: unknown;
+    try {
+      moderation = await moderateSubmission(userId, mediaUrls, {
+        title: input.title,
+        description: input.description,
+        tags: input.tags,
+        materials: input.materials,
+      });
+    } catch (error) {
+      if (!(error instanceof ModerationUnavailableError)) throw error;
+      moderationError = error;
+    }
 
     // Determine initial status
-    const status = moderationFlags.safe ? 'pending' : 'flagged';
+    const status: SubmissionStatus = !moderation
+      ? 'moderation_pending'
+      : moderation.safe ? 'pending' : 'flagged';
 
     // Create submission document
     const submissionRef = this.db.collection('explore_submissions').doc();
-    
-    await submissionRef.set({
+    const batch = this.db.batch();
+
+    batch.set(submissionRef, {
       userId,
       status,
       type: input.type,
       title: input.title,
       description: input.description || '',
-      mediaUrls: input.mediaUrls,
+      mediaUrls,
+      mediaIds: input.mediaIds || [],
+      media: media.map(m => ({
+        id: m.id,
+        url: m.url,
+        thumbUrl: m.thumbUrl,
+        blurhash: m.blurhash,
+        width: m.width,
+        height: m.height,
+      })),
       tags: input.tags.map((t: string) => t.toLowerCase()),
       difficulty: input.difficulty || 'beginner',
       priceRange: input.priceRange || 'mid',
       materials: input.materials || [],
-      moderationFlags: {
-        spam: moderationFlags.spam,
-        inappropriate: moderationFlags.inappropriate,
-        aiGenerated: false, // TODO: Implement AI detection
-      },
+      ...(moderation
+        ? buildModerationFields(moderation)
+        : { moderationFlags: null, imageHashes: [], imageHashBands: [] }),
+      moderationError: moderationError ? 'Moderation service temporarily unavailable' : null,
       submittedAt: admin.firestore.FieldValue.serverTimestamp(),
       reviewedAt: null,
       reviewedBy: null,
       rejectionReason: null,
       approvedEntryId: null,
+      source: options.source || null,
     });
 
+    if (moderationError) {
+      enqueueModerationRetry(batch, submissionRef.id, userId, moderationError);
+    }
+
+    recordAuditEvent(batch, {
+      submissionId: submissionRef.id,
+      submissionOwnerId: userId,
+      action: 'submitted',
+      actorId: userId,
+      actorType: 'user',
+      fromStatus: null,
+      toStatus: status,
+      reason: moderation?.reasons.join('; ') || null,
+      metadata: options.source ? { source: options.source.platform } : {},
+    });
+
+    if (status === 'flagged') {
+      enqueueNotification(batch, {
+        userId,
+        type: 'submission_flagged',
+        submissionId: submissionRef.id,
+        submissionTitle: input.title,
+      });
+    }
+
+    enqueueWebhookEvent(batch, 'submission.created', {
+      submissionId: submissionRef.id,
+      submitterId: userId,
+      type: input.type,
+      title: input.title,
+      status,
+    });
+
+    await batch.commit();
+
     console.log(`[Submission] Created ${submissionRef.id} by ${userId} - status: ${status}`);
 
     return {
@@ -97,12 +284,7 @@ export class SubmissionService {
     const docs = snapshot.docs.slice(0, limit);
     const hasMore = snapshot.docs.length > limit;
 
-    const submissions = docs.map((doc: any) => ({
-      id: doc.id,
-      ...doc.data(),
-      submittedAt: doc.data().submittedAt?.toDate(),
-      reviewedAt: doc.data().reviewedAt?.toDate(),
-    })) as Submission[];
+    const submissions = docs.map(doc => this.toSubmission(doc));
 
     return {
       submissions,
@@ -110,131 +292,756 @@ export class SubmissionService {
     };
   }
 
+  /**
+   * Withdraw a submission that hasn't been decided yet.
+   * Throws SubmissionConflictError once it was approved, rejected or withdrawn.
+   */
   async withdrawSubmission(submissionId: string, userId: string): Promise<boolean> {
     const docRef = this.db.collection('explore_submissions').doc(submissionId);
-    const doc = await docRef.get();
 
-    if (!doc.exists || doc.data()?.userId !== userId) {
-      return false;
-    }
+    const withdrawn = await this.db.runTransaction(async (transaction) => {
+      const doc = await transaction.get(docRef);
+      const submission = doc.data();
 
-    await docRef.update({
-      status: 'withdrawn',
-      reviewedAt: admin.firestore.FieldValue.serverTimestamp(),
+      if (!submission || submission.userId !== userId) {
+        return false;
+      }
+      if (!WITHDRAWABLE_STATUSES.includes(submission.status)) {
+        throw new SubmissionConflictError(`Submissions that are ${submission.status} cannot be withdrawn`);
+      }
+
+      transaction.update(docRef, {
+        status: 'withdrawn',
+        reviewedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      recordAuditEvent(transaction, {
+        submissionId,
+        submissionOwnerId: userId,
+        action: 'withdrawn',
+        actorId: userId,
+        actorType: 'user',
+        fromStatus: submission.status,
+        toStatus: 'withdrawn',
+      });
+      enqueueNotification(transaction, {
+        userId,
+        type: 'submission_withdrawn',
+        submissionId,
+        submissionTitle: submission.title,
+      });
+      return true;
     });
 
-    console.log(`[Submission] Withdrawn ${submissionId} by ${userId}`);
-    return true;
+    if (withdrawn) {
+      console.log(`[Submission] Withdrawn ${submissionId} by ${userId}`);
+    }
+    return withdrawn;
   }
 
-  async approveSubmission(
+  /**
+   * Edit a rejected or pending submission and send it back for review.
+   * The replaced content is kept in the versions subcollection, and only
+   * changed images are moderated again.
+   * Returns null when the submission doesn't exist or isn't owned by the user
+   */
+  async updateSubmission(
     submissionId: string,
-    reviewerId: string,
-    collectionId: string,
-    trendScore = 0.5
-  ): Promise<string> {
+    userId: string,
+    input: SubmissionUpdateInput
+  ): Promise<{ submissionId: string; status: string; version: number } | null> {
     const submissionRef = this.db.collection('explore_submissions').doc(submissionId);
     const submissionDoc = await submissionRef.get();
+    const current = submissionDoc.data();
 
-    if (!submissionDoc.exists) {
-      throw new Error('Submission not found');
+    if (!submissionDoc.exists || current?.userId !== userId) {
+      return null;
+    }
+    if (!RESUBMITTABLE_STATUSES.includes(current.status)) {
+      throw new SubmissionUpdateError(`Submissions that are ${current.status} cannot be edited`);
     }
 
-    const submission = submissionDoc.data();
+    if (current.appealStatus === 'open') {
+      throw new SubmissionUpdateError('Submissions with an open appeal cannot be edited');
+    }
+    if (!isClaimable(current, userId)) {
+      throw new SubmissionConflictError('Submission is being reviewed by a moderator');
+    }
 
-    // Create entry in explore_collections
-    const entryRef = this.db
-      .collection('explore_collections')
-      .doc(collectionId)
-      .collection('entries')
-      .doc();
-
-    await entryRef.set({
-      title: submission?.title,
-      description: submission?.description || '',
-      type: submission?.type,
-      mediaUrl: submission?.mediaUrls[0], // Primary image
-      thumbUrl: submission?.mediaUrls[0],
-      tags: submission?.tags || [],
-      difficulty: submission?.difficulty,
-      priceRange: submission?.priceRange,
-      materials: submission?.materials || [],
-      trendScore,
-      supportsBooking: false,
-      source: 'user_submission',
-      submitterId: submission?.userId,
-      action: {
-        kind: 'post',
-        refPath: null,
-      },
-      metrics: {
-        likes: 0,
-        saves: 0,
-        shares: 0,
+    const version: number = current.version || 1;
+    if (version >= MAX_SUBMISSION_VERSIONS) {
+      throw new SubmissionUpdateError(`Submissions can be revised at most ${MAX_SUBMISSION_VERSIONS - 1} times`);
+    }
+
+    // Sending mediaUrls or mediaIds replaces all media
+    const mediaChanged = input.mediaUrls !== undefined || input.mediaIds !== undefined;
+    const media = input.mediaIds?.length
+      ? await this.mediaService.resolveMedia(userId, input.mediaIds)
+      : [];
+
+    const next = {
+      type: input.type ?? current.type,
+      title: input.title ?? current.title,
+      description: input.description ?? current.description,
+      tags: input.tags ? input.tags.map((t: string) => t.toLowerCase()) : current.tags,
+      difficulty: input.difficulty ?? current.difficulty,
+      priceRange: input.priceRange ?? current.priceRange,
+      materials: input.materials ?? current.materials,
+      ...(mediaChanged
+        ? {
+          mediaUrls: [...(input.mediaUrls || []), ...media.map(m => m.url!)],
+          mediaIds: input.mediaIds || [],
+          media: media.map(m => ({
+            id: m.id,
+            url: m.url,
+            thumbUrl: m.thumbUrl,
+            blurhash: m.blurhash,
+            width: m.width,
+            height: m.height,
+          })),
+        }
+        : { mediaUrls: current.mediaUrls, mediaIds: current.mediaIds || [], media: current.media || [] }),
+    };
+
+    const changes = diffVersions(current, next);
+    if (changes.length === 0) {
+      throw new SubmissionUpdateError('Nothing changed since the last version');
+    }
+
+    let moderation: ModerationResult | null = null;
+    let moderationError: unknown;
+    try {
+      moderation = await moderateSubmission(userId, next.mediaUrls, {
+        title: next.title,
+        description: next.description,
+        tags: next.tags,
+        materials: next.materials,
+      }, {
+        previousImages: readModerationFlags(current.moderationFlags)?.images,
+        submissionId,
+      });
+    } catch (error) {
+      if (!(error instanceof ModerationUnavailableError)) throw error;
+      moderationError = error;
+    }
+
+    const status: SubmissionStatus = !moderation
+      ? 'moderation_pending'
+      : moderation.safe ? 'pending' : 'flagged';
+
+    // Moderation is slow; only write if no decision, edit, claim or appeal happened meanwhile
+    await this.db.runTransaction(async (transaction) => {
+      const latest = (await transaction.get(submissionRef)).data();
+
+      if (!latest || !isUnchangedSince(current, latest)) {
+        throw new SubmissionConflictError('Submission changed while it was being edited; reload and try again');
+      }
+      this.writeResubmission(transaction, {
+        submissionRef, current, next, version, status, moderation, moderationError, changes, userId,
+      });
+    });
+
+    console.log(`[Submission] Resubmitted ${submissionId} as version ${version + 1} - status: ${status}`);
+
+    return { submissionId, status, version: version + 1 };
+  }
+
+  private writeResubmission(
+    transaction: admin.firestore.Transaction,
+    {
+      submissionRef, current, next, version, status, moderation, moderationError, changes, userId,
+    }: {
+      submissionRef: admin.firestore.DocumentReference;
+      current: admin.firestore.DocumentData;
+      next: Record<string, any>;
+      version: number;
+      status: SubmissionStatus;
+      moderation: ModerationResult | null;
+      moderationError: unknown;
+      changes: SubmissionChange[];
+      userId: string;
+    }
+  ): void {
+    const submissionId = submissionRef.id;
+
+    // Keep the replaced version along with the decision made on it
+    transaction.set(submissionRef.collection('versions').doc(String(version)), {
+      version,
+      ...Object.fromEntries(VERSIONED_FIELDS.map(field => [field, current[field] ?? null])),
+      mediaIds: current.mediaIds || [],
+      media: current.media || [],
+      status: current.status,
+      moderationFlags: current.moderationFlags || null,
+      rejectionReason: current.rejectionReason || null,
+      reviewedBy: current.reviewedBy || null,
+      reviewedAt: current.reviewedAt || null,
+      submittedAt: current.resubmittedAt || current.submittedAt || null,
+      supersededAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    transaction.update(submissionRef, {
+      ...next,
+      status,
+      ...(moderation
+        ? buildModerationFields(moderation)
+        : { moderationFlags: null, imageHashes: [], imageHashBands: [] }),
+      moderationError: moderationError ? 'Moderation service temporarily unavailable' : null,
+      version: version + 1,
+      previousRejectionReason: current.rejectionReason || current.previousRejectionReason || null,
+      appealId: null,
+      appealStatus: null,
+      excludedReviewerId: null,
+      claimedBy: null,
+      claimExpiresAt: null,
+      rejectionReason: null,
+      reviewedAt: null,
+      reviewedBy: null,
+      resubmittedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    if (moderationError) {
+      enqueueModerationRetry(transaction, submissionId, userId, moderationError);
+    }
+
+    recordAuditEvent(transaction, {
+      submissionId,
+      submissionOwnerId: userId,
+      action: 'resubmitted',
+      actorId: userId,
+      actorType: 'user',
+      fromStatus: current.status,
+      toStatus: status,
+      reason: moderation?.reasons.join('; ') || null,
+      metadata: { version: version + 1, changedFields: changes.map(c => c.field) },
+    });
+
+    if (status === 'flagged') {
+      enqueueNotification(transaction, {
+        userId,
+        type: 'submission_flagged',
+        submissionId,
+        submissionTitle: next.title,
+      });
+    }
+  }
+
+  /**
+   * All versions of a submission, oldest first, each with its changes from
+   * the version before. The last item is the current content.
+   * Returns null when the submission doesn't exist
+   */
+  async getSubmissionVersions(submissionId: string) {
+    const submissionRef = this.db.collection('explore_submissions').doc(submissionId);
+    const [submissionDoc, snapshot] = await Promise.all([
+      submissionRef.get(),
+      submissionRef.collection('versions').orderBy('version', 'asc').get(),
+    ]);
+
+    if (!submissionDoc.exists) {
+      return null;
+    }
+
+    const current = submissionDoc.data()!;
+    const versions = [
+      ...snapshot.docs.map((doc: any) => ({ ...doc.data(), current: false })),
+      {
+        ...current,
+        version: current.version || 1,
+        submittedAt: current.resubmittedAt || current.submittedAt,
+        current: true,
       },
-      createdAt: admin.firestore.FieldValue.serverTimestamp(),
-      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-      curatedBy: reviewerId,
+    ];
+
+    return {
+      submissionId,
+      currentVersion: current.version || 1,
+      previousRejectionReason: current.previousRejectionReason || null,
+      versions: versions.map((data: any, i) => ({
+        version: data.version,
+        current: data.current,
+        ...Object.fromEntries(VERSIONED_FIELDS.map(field => [field, data[field] ?? null])),
+        status: data.status,
+        rejectionReason: data.rejectionReason || null,
+        reviewedBy: data.reviewedBy || null,
+        reviewedAt: data.reviewedAt?.toDate() || null,
+        submittedAt: data.submittedAt?.toDate() || null,
+        moderationFlags: readModerationFlags(data.moderationFlags),
+        changes: i > 0 ? diffVersions(versions[i - 1], data) : [],
+      })),
+    };
+  }
+
+  /**
+   * Claim the oldest unclaimed items in the moderation queue for a moderator.
+   * Claims expire after MODERATION_CLAIM_MINUTES so abandoned items return to the queue.
+   */
+  async claimNext(moderatorId: string, limit = 5): Promise<Submission[]> {
+    const snapshot = await this.db
+      .collection('explore_submissions')
+      .where('status', 'in', REVIEWABLE_STATUSES)
+      .orderBy('submittedAt', 'asc')
+      .limit(limit * 4)
+      .get();
+
+    const claimed: Submission[] = [];
+
+    for (const doc of snapshot.docs) {
+      if (claimed.length >= limit) break;
+      if (!isClaimable(doc.data(), moderatorId)) continue;
+
+      const submission = await this.claimSubmission(doc.id, moderatorId).catch((error) => {
+        // Someone else got there first
+        if (error.name === 'SubmissionConflictError') return null;
+        throw error;
+      });
+      if (submission) claimed.push(submission);
+    }
+
+    console.log(`[Submission] ${moderatorId} claimed ${claimed.length} submissions`);
+    return claimed;
+  }
+
+  /**
+   * Claim a specific submission, or extend the caller's existing claim
+   * Returns null when the submission doesn't exist
+   */
+  async claimSubmission(submissionId: string, moderatorId: string): Promise<Submission | null> {
+    const submissionRef = this.db.collection('explore_submissions').doc(submissionId);
+
+    return this.db.runTransaction(async (transaction) => {
+      const submissionDoc = await transaction.get(submissionRef);
+      const submission = submissionDoc.data();
+
+      if (!submission) {
+        return null;
+      }
+      assertReviewable(submission, moderatorId);
+
+      const claimExpiresAt = new Date(Date.now() + CLAIM_LEASE_MS);
+      transaction.update(submissionRef, { claimedBy: moderatorId, claimExpiresAt });
+
+      return this.toSubmission(submissionDoc, { claimedBy: moderatorId, claimExpiresAt });
     });
+  }
+
+  /**
+   * Give up a claim so other moderators can pick the item up
+   * Returns false when the submission doesn't exist
+   */
+  async releaseSubmission(submissionId: string, moderatorId: string): Promise<boolean> {
+    const submissionRef = this.db.collection('explore_submissions').doc(submissionId);
+
+    return this.db.runTransaction(async (transaction) => {
+      const submissionDoc = await transaction.get(submissionRef);
+      const submission = submissionDoc.data();
+
+      if (!submission) {
+        return false;
+      }
+      if (submission.claimedBy !== moderatorId) {
+        throw new SubmissionConflictError('Submission is not claimed by you');
+      }
 
-    // Update submission status
-    await submissionRef.update({
-      status: 'approved',
-      reviewedAt: admin.firestore.FieldValue.serverTimestamp(),
-      reviewedBy: reviewerId,
-      approvedEntryId: entryRef.id,
+      transaction.update(submissionRef, { claimedBy: null, claimExpiresAt: null });
+      return true;
     });
+  }
+
+  /**
+   * Publish a submission as an entry. Runs as a transaction so a submission is
+   * approved at most once and never after it was withdrawn or decided.
+   * Returns null when the submission doesn't exist
+   * Throws SubmissionConflictError when it isn't reviewable or is claimed by someone else
+   * Throws CollectionNotFoundError when the target collection doesn't exist
+   */
+  async approveSubmission(
+    submissionId: string,
+    reviewerId: string,
+    collectionId: string,
+    trendScore = 0.5,
+    options: ReviewOptions = {}
+  ): Promise<string | null> {
+    const submissionRef = this.db.collection('explore_submissions').doc(submissionId);
+
+    // Create entry in explore_collections
+    const collectionRef = this.db.collection('explore_collections').doc(collectionId);
+    const entryRef = collectionRef.collection('entries').doc();
+
+    const approved = await this.db.runTransaction(async (transaction) => {
+      const [submissionDoc, collectionDoc] = await transaction.getAll(submissionRef, collectionRef);
+      const submission = submissionDoc.data();
+
+      if (!submission) {
+        return false;
+      }
+      assertReviewable(submission, reviewerId);
+
+      if (!collectionDoc.exists) {
+        throw new CollectionNotFoundError(collectionId);
+      }
+
+      // Managed uploads have generated thumbnails; external URLs fall back to the full image
+      const primaryMedia = (submission.media || []).find(
+        (m: SubmissionMedia) => m.url === submission.mediaUrls[0]
+      ) as SubmissionMedia | undefined;
+
+      transaction.set(entryRef, {
+        title: submission.title,
+        description: submission.description || '',
+        type: submission.type,
+        mediaUrl: submission.mediaUrls[0], // Primary image
+        thumbUrl: primaryMedia?.thumbUrl || submission.mediaUrls[0],
+        blurhash: primaryMedia?.blurhash || null,
+        mediaId: primaryMedia?.id || null,
+        tags: submission.tags || [],
+        difficulty: submission.difficulty,
+        priceRange: submission.priceRange,
+        materials: submission.materials || [],
+        imageHashes: submission.imageHashes || [],
+        imageHashBands: submission.imageHashBands || [],
+        trendScore,
+        supportsBooking: false,
+        source: 'user_submission',
+        importedFrom: submission.source || null,
+        submitterId: submission.userId,
+        submissionId,
+        position: newEntryPosition(),
+        pinned: false,
+        pinnedAt: null,
+        action: {
+          kind: 'post',
+          refPath: null,
+        },
+        metrics: {
+          likes: 0,
+          views: 0,
+          saves: 0,
+          shares: 0,
+          bookings: 0,
+          totalViewSeconds: 0,
+          timedViews: 0,
+        },
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        curatedBy: reviewerId,
+      });
+      transaction.update(collectionRef, { entryCount: admin.firestore.FieldValue.increment(1) });
+
+      // Update submission status
+      transaction.update(submissionRef, {
+        status: 'approved',
+        reviewedAt: admin.firestore.FieldValue.serverTimestamp(),
+        reviewedBy: reviewerId,
+        approvedEntryId: entryRef.id,
+        approvedCollectionId: collectionId,
+        claimedBy: null,
+        claimExpiresAt: null,
+        moderationBatch: batchMarker(submission, options),
+      });
+      recordAuditEvent(transaction, {
+        submissionId,
+        submissionOwnerId: submission.userId,
+        action: 'approved',
+        actorId: reviewerId,
+        actorType: 'moderator',
+        fromStatus: submission.status,
+        toStatus: 'approved',
+        metadata: { collectionId, entryId: entryRef.id, batchId: options.batchId || null },
+      });
+      enqueueNotification(transaction, {
+        userId: submission.userId,
+        type: 'submission_approved',
+        submissionId,
+        submissionTitle: submission.title,
+        collectionId,
+        entryId: entryRef.id,
+      });
+      enqueueWebhookEvent(transaction, 'submission.approved', {
+        submissionId,
+        submitterId: submission.userId,
+        reviewerId,
+        collectionId,
+        entryId: entryRef.id,
+      });
+      enqueueWebhookEvent(transaction, 'entry.published', {
+        collectionId,
+        entryId: entryRef.id,
+        submissionId,
+        submitterId: submission.userId,
+        title: submission.title,
+        type: submission.type,
+        mediaUrl: submission.mediaUrls[0],
+        thumbUrl: primaryMedia?.thumbUrl || submission.mediaUrls[0],
+        tags: submission.tags || [],
+      });
+      return true;
+    });
+
+    if (!approved) {
+      return null;
+    }
 
     console.log(`[Submission] Approved ${submissionId} → entry ${entryRef.id}`);
 
     return entryRef.id;
   }
 
+  /**
+   * Reject a submission, in a transaction like approveSubmission
+   * Returns false when the submission doesn't exist
+   * Throws SubmissionConflictError when it isn't reviewable or is claimed by someone else
+   */
   async rejectSubmission(
     submissionId: string,
     reviewerId: string,
-    reason: string
+    reason: string,
+    options: ReviewOptions = {}
   ): Promise<boolean> {
     const submissionRef = this.db.collection('explore_submissions').doc(submissionId);
-    const submissionDoc = await submissionRef.get();
 
-    if (!submissionDoc.exists) {
-      return false;
-    }
+    const rejected = await this.db.runTransaction(async (transaction) => {
+      const submissionDoc = await transaction.get(submissionRef);
+      const submission = submissionDoc.data();
+
+      if (!submission) {
+        return false;
+      }
+      assertReviewable(submission, reviewerId);
 
-    await submissionRef.update({
-      status: 'rejected',
-      reviewedAt: admin.firestore.FieldValue.serverTimestamp(),
-      reviewedBy: reviewerId,
-      rejectionReason: reason,
+      transaction.update(submissionRef, {
+        status: 'rejected',
+        reviewedAt: admin.firestore.FieldValue.serverTimestamp(),
+        reviewedBy: reviewerId,
+        rejectionReason: reason,
+        claimedBy: null,
+        claimExpiresAt: null,
+        moderationBatch: batchMarker(submission, options),
+      });
+      recordAuditEvent(transaction, {
+        submissionId,
+        submissionOwnerId: submission.userId,
+        action: 'rejected',
+        actorId: reviewerId,
+        actorType: 'moderator',
+        fromStatus: submission.status,
+        toStatus: 'rejected',
+        reason,
+        metadata: { batchId: options.batchId || null },
+      });
+      enqueueNotification(transaction, {
+        userId: submission.userId,
+        type: 'submission_rejected',
+        submissionId,
+        submissionTitle: submission.title,
+        rejectionReason: reason,
+      });
+      enqueueWebhookEvent(transaction, 'submission.rejected', {
+        submissionId,
+        submitterId: submission.userId,
+        reviewerId,
+        reason,
+      });
+      return true;
     });
 
-    console.log(`[Submission] Rejected ${submissionId}: ${reason}`);
-    return true;
+    if (rejected) {
+      console.log(`[Submission] Rejected ${submissionId}: ${reason}`);
+    }
+    return rejected;
   }
 
+  /**
+   * Moderation queue with filters, sorting and cursor pagination.
+   * Items claimed by other moderators are left out unless includeClaimed is set.
+   */
   async getModerationQueue(
-    filter?: string,
-    limit = 50
-  ): Promise<Submission[]> {
-    let query = this.db
-      .collection('explore_submissions')
-      .orderBy('submittedAt', 'asc')
-      .limit(limit);
+    params: ModerationQueueQuery,
+    moderatorId: string
+  ): Promise<{ submissions: Submission[]; nextCursor?: string }> {
+    const statuses = params.status || (params.filter ? [params.filter] : REVIEWABLE_STATUSES);
+    let query: admin.firestore.Query = this.db.collection('explore_submissions');
+
+    query = statuses.length === 1
+      ? query.where('status', '==', statuses[0])
+      : query.where('status', 'in', statuses);
 
-    if (filter) {
-      query = query.where('status', '==', filter) as any;
-    } else {
-      query = query.where('status', 'in', ['pending', 'flagged']) as any;
+    if (params.type) query = query.where('type', '==', params.type);
+    if (params.tag) query = query.where('tags', 'array-contains', params.tag);
+    if (params.submitterId) query = query.where('userId', '==', params.submitterId);
+    if (params.from) query = query.where('submittedAt', '>=', params.from);
+    if (params.to) query = query.where('submittedAt', '<=', params.to);
+    if (params.minInappropriate !== undefined) {
+      query = query.where('moderationFlags.inappropriate', '>=', params.minInappropriate);
+    }
+    if (params.minSpam !== undefined) {
+      query = query.where('moderationFlags.spam', '>=', params.minSpam);
+    }
+    if (params.minText !== undefined) {
+      query = query.where('moderationFlags.text', '>=', params.minText);
     }
 
-    const snapshot = await query.get();
+    const hasScoreFilter = [params.minInappropriate, params.minSpam, params.minText]
+      .some(value => value !== undefined);
+    let queries: admin.firestore.Query[];
+
+    switch (params.sort) {
+      case 'newest':
+        queries = [query.orderBy('submittedAt', 'desc')];
+        break;
+      case 'inappropriate':
+      case 'spam':
+        queries = [query.orderBy(`moderationFlags.${params.sort}`, 'desc').orderBy('submittedAt', 'asc')];
+        // Ordering by a score leaves out submissions that have no scores yet
+        // (waiting for a moderation retry); list them after the scored ones
+        if (!hasScoreFilter) {
+          queries.push(query.where('moderationFlags', '==', null).orderBy('submittedAt', 'asc'));
+        }
+        break;
+      default:
+        queries = [query.orderBy('submittedAt', 'asc')];
+    }
+
+    const cursorDoc = params.cursor
+      ? await this.db.collection('explore_submissions').doc(params.cursor).get()
+      : undefined;
 
-    return snapshot.docs.map((doc: any) => ({
+    // Claimed items are skipped, so keep reading until the page is full
+    const matched: admin.firestore.QueryDocumentSnapshot[] = [];
+    let last: admin.firestore.DocumentSnapshot | undefined = cursorDoc?.exists ? cursorDoc : undefined;
+    let lastRead = last;
+    let phase = queries.length > 1 && last?.data()!.moderationFlags === null ? 1 : 0;
+    let scanned = 0;
+
+    while (phase < queries.length && matched.length <= params.limit && scanned < MAX_QUEUE_SCAN) {
+      const page = await (last ? queries[phase].startAfter(last) : queries[phase]).limit(params.limit + 1).get();
+      matched.push(...page.docs.filter(doc => params.includeClaimed || isClaimable(doc.data(), moderatorId)));
+      scanned += page.size;
+      lastRead = page.docs[page.size - 1] || lastRead;
+
+      if (page.size === params.limit + 1) {
+        last = page.docs[page.size - 1];
+      } else {
+        phase++;
+        last = undefined;
+      }
+    }
+
+    const docs = matched.slice(0, params.limit);
+
+    return {
+      submissions: docs.map(doc => this.toSubmission(doc)),
+      // When the scan limit is hit first, continue after the last doc read
+      nextCursor: matched.length > params.limit
+        ? docs[docs.length - 1].id
+        : phase < queries.length ? lastRead?.id : undefined,
+    };
+  }
+
+  /**
+   * Number of submissions in each status, for the moderator dashboard
+   */
+  async getStatusCounts(): Promise<Record<SubmissionStatus, number>> {
+    const statuses = SubmissionStatusSchema.options;
+    const counts = await Promise.all(
+      statuses.map(status =>
+        this.db.collection('explore_submissions').where('status', '==', status).count().get()
+      )
+    );
+
+    return Object.fromEntries(
+      statuses.map((status, i) => [status, counts[i].data().count])
+    ) as Record<SubmissionStatus, number>;
+  }
+
+  private toSubmission(
+    doc: admin.firestore.DocumentSnapshot,
+    overrides: Partial<Submission> = {}
+  ): Submission {
+    const data = doc.data()!;
+
+    return {
       id: doc.id,
-      ...doc.data(),
-      submittedAt: doc.data().submittedAt?.toDate(),
-      reviewedAt: doc.data().reviewedAt?.toDate(),
-    })) as Submission[];
+      ...data,
+      submittedAt: data.submittedAt?.toDate(),
+      reviewedAt: data.reviewedAt?.toDate(),
+      resubmittedAt: data.resubmittedAt?.toDate(),
+      claimExpiresAt: data.claimExpiresAt?.toDate() || null,
+      moderationFlags: readModerationFlags(data.moderationFlags),
+      ...overrides,
+    } as Submission;
+  }
+}
+
+/**
+ * Whether a submission still has the status, version, claim and appeal it had
+ * when an edit started
+ */
+function isUnchangedSince(before: admin.firestore.DocumentData, after: admin.firestore.DocumentData): boolean {
+  const millis = (value: any) => value?.toMillis?.() ?? null;
+
+  return after.status === before.status
+    && (after.version || 1) === (before.version || 1)
+    && (after.claimedBy || null) === (before.claimedBy || null)
+    && millis(after.claimExpiresAt) === millis(before.claimExpiresAt)
+    && (after.appealStatus || null) === (before.appealStatus || null);
+}
+
+/**
+ * Whether the moderator may claim or review the submission now. The reviewer
+ * whose decision was overturned on appeal never can.
+ */
+function isClaimable(submission: admin.firestore.DocumentData, moderatorId: string): boolean {
+  if (submission.excludedReviewerId === moderatorId) return false;
+
+  const claimExpiresAt: Date | undefined = submission.claimExpiresAt?.toDate();
+  return !submission.claimedBy
+    || submission.claimedBy === moderatorId
+    || !claimExpiresAt
+    || claimExpiresAt.getTime() <= Date.now();
+}
+
+/**
+ * Bulk decisions remember the batch and the status before it, so the batch can be undone
+ */
+function batchMarker(submission: admin.firestore.DocumentData, options: ReviewOptions) {
+  return options.batchId ? { id: options.batchId, previousStatus: submission.status } : null;
+}
+
+function assertReviewable(submission: admin.firestore.DocumentData, moderatorId: string): void {
+  if (!REVIEWABLE_STATUSES.includes(submission.status)) {
+    throw new SubmissionConflictError(`Submission is already ${submission.status}`);
+  }
+  if (submission.excludedReviewerId === moderatorId) {
+    throw new SubmissionConflictError('Your decision on this submission was overturned on appeal; another moderator must review it');
+  }
+  if (!isClaimable(submission, moderatorId)) {
+    throw new SubmissionConflictError('Submission is claimed by another moderator');
+  }
+}
+
+export function diffVersions(
+  before: admin.firestore.DocumentData,
+  after: admin.firestore.DocumentData
+): SubmissionChange[] {
+  const changes: SubmissionChange[] = [];
+
+  for (const field of VERSIONED_FIELDS) {
+    const from = before[field] ?? null;
+    const to = after[field] ?? null;
+
+    if (Array.isArray(from) || Array.isArray(to)) {
+      const fromValues: string[] = from || [];
+      const toValues: string[] = to || [];
+      if (fromValues.join('\n') !== toValues.join('\n')) {
+        changes.push({
+          field,
+          added: toValues.filter(value => !fromValues.includes(value)),
+          removed: fromValues.filter(value => !toValues.includes(value)),
+        });
+      }
+    } else if (from !== to) {
+      changes.push({ field, from, to });
+    }
   }
+
+  return changes;
 }
@@ -0,0 +1,152 @@
+import fs from 'fs';
+
+// More hashtags than this in the title + description counts as stuffing
+const MAX_HASHTAGS = Number(process.env.MODERATION_MAX_HASHTAGS) || 10;
+// More links than this counts as link spam
+const MAX_LINKS = 1;
+
+// Built-in terms; deployments extend them with MODERATION_TERMS_PATH
+const DEFAULT_TERMS: TermList = {
+  profanity: ['fuck', 'fucking', 'shit', 'bitch', 'cunt', 'asshole', 'dick', 'pussy', 'bastard', 'whore', 'slut'],
+  slurs: [],
+};
+
+const LINK_SHORTENERS = ['bit.ly', 'tinyurl.com', 'goo.gl', 't.co', 'ow.ly', 'is.gd', 'cutt.ly', 'linktr.ee'];
+const MESSAGING_APPS = ['whatsapp', 'telegram', 'snapchat', 'kik', 'wechat', 'signal me', 'dm me'];
+
+// Severity of each finding category (0-1); the text score is the highest found
+const CATEGORY_SCORES = {
+  slur: 1,
+  link_spam: 0.8,
+  contact: 0.7,
+  phone: 0.7,
+  profanity: 0.6,
+  hashtag_stuffing: 0.6,
+  link: 0.3,
+} as const;
+
+const REASONS: Record<TextFindingCategory, string> = {
+  slur: 'Hateful language',
+  profanity: 'Profanity',
+  contact: 'Contact details in text',
+  phone: 'Phone number in text',
+  link_spam: 'Link spam',
+  link: 'Contains a link',
+  hashtag_stuffing: 'Excessive hashtags',
+};
+
+interface TermList {
+  profanity: string[];
+  slurs: string[];
+}
+
+export type TextFindingCategory = keyof typeof CATEGORY_SCORES;
+
+export interface TextFinding {
+  field: string;
+  category: TextFindingCategory;
+  match: string;
+}
+
+export interface TextModerationInput {
+  title?: string;
+  description?: string;
+  tags?: string[];
+  materials?: string[];
+}
+
+export interface TextModerationResult {
+  score: number; // 0-1
+  reasons: string[];
+  findings: TextFinding[];
+}
+
+let termPatterns: { profanity: RegExp | null; slurs: RegExp | null } | undefined;
+
+function loadTermPatterns() {
+  if (termPatterns) return termPatterns;
+
+  const terms: TermList = { profanity: [...DEFAULT_TERMS.profanity], slurs: [...DEFAULT_TERMS.slurs] };
+  const termsPath = process.env.MODERATION_TERMS_PATH;
+
+  if (termsPath) {
+    const custom: Partial<TermList> = JSON.parse(fs.readFileSync(termsPath, 'utf8'));
+    terms.profanity.push(...(custom.profanity || []));
+    terms.slurs.push(...(custom.slurs || []));
+  }
+
+  const compile = (list: string[]) => {
+    const escaped = list
+      .map(term => term.trim().toLowerCase())
+      .filter(Boolean)
+      .map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    return escaped.length > 0 ? new RegExp(`\\b(${escaped.join('|')})\\b`, 'i') : null;
+  };
+
+  termPatterns = { profanity: compile(terms.profanity), slurs: compile(terms.slurs) };
+  return termPatterns;
+}
+
+/**
+ * Undo common character substitutions used to dodge word filters (e.g. "sh1t")
+ */
+function normalizeText(text: string): string {
+  const substitutions: Record<string, string> = {
+    '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's', '!': 'i',
+  };
+  return text.toLowerCase().replace(/[013457@$!]/g, c => substitutions[c]);
+}
+
+/**
+ * Check submission text for abusive language, contact details and spam
+ */
+export function moderateText(input: TextModerationInput): TextModerationResult {
+  const patterns = loadTermPatterns();
+  const findings: TextFinding[] = [];
+
+  const fields: Array<[string, string]> = [
+    ['title', input.title || ''],
+    ['description', input.description || ''],
+    ...(input.tags || []).map((tag): [string, string] => ['tags', tag]),
+    ...(input.materials || []).map((material): [string, string] => ['materials', material]),
+  ];
+
+  for (const [field, text] of fields) {
+    if (!text) continue;
+    const normalized = normalizeText(text);
+
+    const slur = patterns.slurs?.exec(normalized) || patterns.slurs?.exec(text);
+    if (slur) findings.push({ field, category: 'slur', match: slur[1] });
+
+    const profanity = patterns.profanity?.exec(normalized) || patterns.profanity?.exec(text);
+    if (profanity) findings.push({ field, category: 'profanity', match: profanity[1] });
+
+    const email = text.match(/[\w.+-]+@[\w-]+\.[\w.-]+/);
+    if (email) findings.push({ field, category: 'contact', match: email[0] });
+
+    const messaging = MESSAGING_APPS.find(app => text.toLowerCase().includes(app));
+    if (messaging) findings.push({ field, category: 'contact', match: messaging });
+
+    const phone = (text.match(/\+?\d[\d\s().-]{7,}\d/g) || [])
+      .find(candidate => candidate.replace(/\D/g, '').length >= 9);
+    if (phone) findings.push({ field, category: 'phone', match: phone });
+
+    const links: string[] = text.match(/(https?:\/\/|www\.)\S+|\b[\w-]+\.(com|net|ly|ee|co|io|me|shop|store)\/\S*/gi) || [];
+    const shortener = links.find(link => LINK_SHORTENERS.some(s => link.toLowerCase().includes(s)));
+    if (links.length > MAX_LINKS || shortener) {
+      findings.push({ field, category: 'link_spam', match: shortener || links[0] });
+    } else if (links.length > 0) {
+      findings.push({ field, category: 'link', match: links[0] });
+    }
+  }
+
+  const hashtagCount = `${input.title || ''} ${input.description || ''}`.match(/#[\p{L}\p{N}_]+/gu)?.length || 0;
+  if (hashtagCount > MAX_HASHTAGS) {
+    findings.push({ field: 'description', category: 'hashtag_stuffing', match: `${hashtagCount} hashtags` });
+  }
+
+  const score = Math.max(0, ...findings.map(f => CATEGORY_SCORES[f.category]));
+  const reasons = [...new Set(findings.map(f => REASONS[f.category]))];
+
+  return { score, reasons, findings };
+}
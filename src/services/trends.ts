@@ -0,0 +1,227 @@
+import { getFirestore } from '../lib/firebase.js';
+import admin from 'firebase-admin';
+
+/**
+ * A numeric setting, or undefined when unset, not a number or below min.
+ * Unlike `Number(value) || fallback` this keeps an explicit 0.
+ */
+function envNumber(name: string, min = 0): number | undefined {
+  const raw = process.env[name]?.trim();
+  const value = raw ? Number(raw) : NaN;
+  return Number.isFinite(value) && value >= min ? value : undefined;
+}
+
+// Only engagement inside this window contributes to trendScore
+const TREND_WINDOW_DAYS = envNumber('TREND_WINDOW_DAYS') ?? 14;
+// An event's weight halves every TREND_HALF_LIFE_HOURS
+const TREND_HALF_LIFE_HOURS = envNumber('TREND_HALF_LIFE_HOURS', 1) ?? 72;
+// Entries younger than TREND_NEW_ENTRY_DAYS get up to TREND_NEW_ENTRY_BOOST
+// added (0 turns the boost off)
+const TREND_NEW_ENTRY_DAYS = envNumber('TREND_NEW_ENTRY_DAYS') ?? 7;
+const TREND_NEW_ENTRY_BOOST = Math.min(envNumber('TREND_NEW_ENTRY_BOOST') ?? 0.1, 1);
+
+const ACTION_WEIGHTS: Record<string, number> = {
+  view: 1,
+  save: 4,
+  share: 6,
+  book: 10,
+};
+
+const PAGE_SIZE = 1000;
+
+// gRPC status for a write to a document that no longer exists
+const NOT_FOUND = 5;
+
+interface EntrySignals {
+  views: number;
+  saves: number;
+  shares: number;
+  bookings: number;
+  decayedScore: number;
+}
+
+export interface TrendRunResult {
+  runId: string;
+  eventsProcessed: number;
+  entriesUpdated: number;
+  entriesSkipped: number; // Deleted while the run was writing
+  durationMs: number;
+}
+
+/**
+ * Recompute trendScore for every explore entry from recent engagement
+ */
+export async function recomputeTrendScores(now = new Date()): Promise<TrendRunResult> {
+  const db = getFirestore();
+  const startTime = Date.now();
+  const runRef = db.collection('explore_trend_runs').doc();
+
+  await runRef.set({
+    status: 'running',
+    startedAt: admin.firestore.FieldValue.serverTimestamp(),
+    windowDays: TREND_WINDOW_DAYS,
+    halfLifeHours: TREND_HALF_LIFE_HOURS,
+  });
+
+  try {
+    const { signals, eventsProcessed } = await aggregateEngagement(now);
+    const maxDecayed = Math.max(0, ...[...signals.values()].map(s => s.decayedScore));
+
+    let entriesUpdated = 0;
+    let entriesSkipped = 0;
+    let lastDoc: admin.firestore.QueryDocumentSnapshot | undefined;
+
+    // Writes succeed or fail one by one, so an entry removed or moved
+    // mid-run is skipped instead of failing the whole run
+    const writer = db.bulkWriter();
+    const writeErrors: Error[] = [];
+    writer.onWriteError(error => error.code !== NOT_FOUND && error.failedAttempts < 3);
+
+    // Walk every entry so scores of entries without recent engagement decay too
+    for (;;) {
+      let query = db
+        .collectionGroup('entries')
+        .orderBy(admin.firestore.FieldPath.documentId())
+        .select('createdAt')
+        .limit(PAGE_SIZE);
+
+      if (lastDoc) {
+        query = query.startAfter(lastDoc);
+      }
+
+      const snapshot = await query.get();
+      if (snapshot.empty) break;
+
+      for (const doc of snapshot.docs) {
+        const entrySignals = signals.get(doc.id) || emptySignals();
+        const createdAt: Date | undefined = doc.data().createdAt?.toDate();
+
+        writer
+          .update(doc.ref, {
+            trendScore: computeTrendScore(entrySignals.decayedScore, maxDecayed, createdAt, now),
+            trendSignals: entrySignals,
+            trendScoreComputedAt: admin.firestore.FieldValue.serverTimestamp(),
+          })
+          .then(() => entriesUpdated++)
+          .catch((error) => {
+            if (error.code === NOT_FOUND) entriesSkipped++;
+            else writeErrors.push(error);
+          });
+      }
+
+      lastDoc = snapshot.docs[snapshot.docs.length - 1];
+      if (snapshot.size < PAGE_SIZE) break;
+    }
+
+    await writer.close();
+    if (writeErrors.length > 0) {
+      throw writeErrors[0];
+    }
+
+    const result: TrendRunResult = {
+      runId: runRef.id,
+      eventsProcessed,
+      entriesUpdated,
+      entriesSkipped,
+      durationMs: Date.now() - startTime,
+    };
+
+    await runRef.update({
+      status: 'completed',
+      eventsProcessed,
+      entriesUpdated,
+      entriesSkipped,
+      durationMs: result.durationMs,
+      completedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    console.log(
+      `[Trends] Recomputed ${entriesUpdated} entries from ${eventsProcessed} events ` +
+      `in ${result.durationMs}ms (${entriesSkipped} deleted mid-run)`
+    );
+
+    return result;
+  } catch (error) {
+    await runRef.update({
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      completedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    throw error;
+  }
+}
+
+/**
+ * Sum time-decayed engagement per entry over the trend window. Keyed by entry
+ * ID, which stays the same when an entry moves to another collection.
+ */
+async function aggregateEngagement(
+  now: Date
+): Promise<{ signals: Map<string, EntrySignals>; eventsProcessed: number }> {
+  const db = getFirestore();
+  const since = new Date(now.getTime() - TREND_WINDOW_DAYS * 86400 * 1000);
+  const signals = new Map<string, EntrySignals>();
+  let eventsProcessed = 0;
+  let lastDoc: admin.firestore.QueryDocumentSnapshot | undefined;
+
+  for (;;) {
+    let query = db
+      .collection('explore_engagement_events')
+      .where('occurredAt', '>=', since)
+      .orderBy('occurredAt', 'asc')
+      .limit(PAGE_SIZE);
+
+    if (lastDoc) {
+      query = query.startAfter(lastDoc);
+    }
+
+    const snapshot = await query.get();
+    if (snapshot.empty) break;
+
+    for (const doc of snapshot.docs) {
+      const event = doc.data();
+      const weight = ACTION_WEIGHTS[event.action];
+      if (event.deduplicated || !weight || !event.occurredAt) continue;
+
+      const entrySignals = signals.get(event.entryId) || emptySignals();
+      const ageHours = (now.getTime() - event.occurredAt.toDate().getTime()) / 3600000;
+
+      entrySignals.decayedScore += weight * Math.pow(0.5, Math.max(ageHours, 0) / TREND_HALF_LIFE_HOURS);
+      if (event.action === 'view') entrySignals.views++;
+      if (event.action === 'save') entrySignals.saves++;
+      if (event.action === 'share') entrySignals.shares++;
+      if (event.action === 'book') entrySignals.bookings++;
+
+      signals.set(event.entryId, entrySignals);
+      eventsProcessed++;
+    }
+
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+    if (snapshot.size < PAGE_SIZE) break;
+  }
+
+  return { signals, eventsProcessed };
+}
+
+/**
+ * Map decayed engagement to 0-1 on a log scale relative to the top entry,
+ * plus a linearly fading boost for new entries
+ */
+function computeTrendScore(
+  decayedScore: number,
+  maxDecayed: number,
+  createdAt: Date | undefined,
+  now: Date
+): number {
+  const engagement = maxDecayed > 0 ? Math.log1p(decayedScore) / Math.log1p(maxDecayed) : 0;
+
+  const ageDays = createdAt ? (now.getTime() - createdAt.getTime()) / 86400000 : Infinity;
+  const freshness = Math.max(0, 1 - ageDays / TREND_NEW_ENTRY_DAYS);
+
+  const score = (1 - TREND_NEW_ENTRY_BOOST) * engagement + TREND_NEW_ENTRY_BOOST * freshness;
+  return Math.round(Math.min(Math.max(score, 0), 1) * 10000) / 10000;
+}
+
+function emptySignals(): EntrySignals {
+  return { views: 0, saves: 0, shares: 0, bookings: 0, decayedScore: 0 };
+}
@@ -0,0 +1,456 @@
+import crypto from 'crypto';
+import { getFirestore } from '../lib/firebase.js';
+import { encryptSecret, decryptSecret } from '../lib/crypto.js';
+import { assertPublicUrl, postPublicUrl } from '../lib/network.js';
+import {
+  WebhookEventType,
+  WebhookSubscriptionInput,
+  WebhookSubscriptionUpdate,
+  DeadLetterFilter,
+} from '../lib/validation.js';
+import admin from 'firebase-admin';
+
+const EVENTS_COLLECTION = 'webhook_events';
+const DELIVERIES_COLLECTION = 'webhook_deliveries';
+const SUBSCRIPTIONS_COLLECTION = 'webhook_subscriptions';
+
+// Signing secrets are stored encrypted with their own key, not the OAuth one
+const SECRET_KEY = 'WEBHOOK_SECRET_ENCRYPTION_KEY';
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 3600 * 1000;
+const MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 8;
+
+// How long a dispatcher holds a delivery before another one may pick it up
+const DELIVERY_LEASE_MS = 2 * 60 * 1000;
+
+export const SIGNATURE_HEADER = 'X-UpStyles-Signature';
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  events: WebhookEventType[];
+  description: string | null;
+  active: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  eventId: string;
+  type: WebhookEventType;
+  url: string;
+  status: 'pending' | 'delivered' | 'dead';
+  attempts: number;
+  lastError: string | null;
+  lastStatusCode: number | null;
+  nextAttemptAt: Date | null;
+  createdAt: Date;
+  deliveredAt: Date | null;
+}
+
+export interface WebhookDispatchResult {
+  eventsFannedOut: number;
+  processed: number;
+  delivered: number;
+  rescheduled: number;
+  dead: number;
+}
+
+// Both WriteBatch and Transaction satisfy this
+interface EventWriter {
+  set(ref: admin.firestore.DocumentReference, data: admin.firestore.DocumentData): unknown;
+}
+
+/**
+ * Record an event for webhook subscribers. Written in the caller's batch or
+ * transaction so events are only emitted for changes that were committed.
+ */
+export function enqueueWebhookEvent(
+  writer: EventWriter,
+  type: WebhookEventType,
+  data: Record<string, unknown>
+): void {
+  const db = getFirestore();
+
+  writer.set(db.collection(EVENTS_COLLECTION).doc(), {
+    type,
+    data,
+    status: 'pending',
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * Signature sent in the X-UpStyles-Signature header: "t=<unix seconds>,v1=<hex>",
+ * where v1 is HMAC-SHA256 of "<t>.<raw body>" with the subscription secret.
+ * Receivers should recompute it and reject stale timestamps.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+export class WebhookService {
+  private db = getFirestore();
+
+  /**
+   * The secret is only returned here; it is stored encrypted. Throws
+   * UnsafeUrlError when the URL points at a private or internal host.
+   */
+  async createSubscription(
+    adminId: string,
+    input: WebhookSubscriptionInput
+  ): Promise<WebhookSubscription & { secret: string }> {
+    await assertPublicUrl(input.url);
+
+    const ref = this.db.collection(SUBSCRIPTIONS_COLLECTION).doc();
+    const secret = `whsec_${crypto.randomBytes(24).toString('hex')}`;
+
+    await ref.set({
+      url: input.url,
+      events: input.events,
+      description: input.description || null,
+      secret: encryptSecret(secret, SECRET_KEY),
+      active: true,
+      createdBy: adminId,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    console.log(`[Webhooks] ${adminId} subscribed ${input.url} to ${input.events.join(', ')}`);
+
+    return { ...this.toSubscription(await ref.get()), secret };
+  }
+
+  async listSubscriptions(): Promise<WebhookSubscription[]> {
+    const snapshot = await this.db
+      .collection(SUBSCRIPTIONS_COLLECTION)
+      .orderBy('createdAt', 'desc')
+      .get();
+
+    return snapshot.docs.map(doc => this.toSubscription(doc));
+  }
+
+  /**
+   * Returns null when the subscription doesn't exist. Throws UnsafeUrlError
+   * when a new URL points at a private or internal host.
+   */
+  async updateSubscription(
+    subscriptionId: string,
+    input: WebhookSubscriptionUpdate
+  ): Promise<WebhookSubscription | null> {
+    const ref = this.db.collection(SUBSCRIPTIONS_COLLECTION).doc(subscriptionId);
+    const doc = await ref.get();
+
+    if (!doc.exists) {
+      return null;
+    }
+
+    if (input.url !== undefined) {
+      await assertPublicUrl(input.url);
+    }
+
+    const updates = Object.fromEntries(
+      Object.entries(input).filter(([, value]) => value !== undefined)
+    );
+    await ref.update({ ...updates, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+
+    return this.toSubscription(await ref.get());
+  }
+
+  async deleteSubscription(subscriptionId: string): Promise<boolean> {
+    const ref = this.db.collection(SUBSCRIPTIONS_COLLECTION).doc(subscriptionId);
+    const doc = await ref.get();
+
+    if (!doc.exists) {
+      return false;
+    }
+
+    await ref.delete();
+    console.log(`[Webhooks] Deleted subscription ${subscriptionId}`);
+    return true;
+  }
+
+  /**
+   * Fan new events out to subscriptions, then attempt due deliveries
+   */
+  async dispatchDue(limit = 50): Promise<WebhookDispatchResult> {
+    const result: WebhookDispatchResult = {
+      eventsFannedOut: 0,
+      processed: 0,
+      delivered: 0,
+      rescheduled: 0,
+      dead: 0,
+    };
+
+    result.eventsFannedOut = await this.fanOutEvents(limit);
+
+    const snapshot = await this.db
+      .collection(DELIVERIES_COLLECTION)
+      .where('status', '==', 'pending')
+      .where('nextAttemptAt', '<=', new Date())
+      .orderBy('nextAttemptAt', 'asc')
+      .limit(limit)
+      .get();
+
+    for (const doc of snapshot.docs) {
+      if (!(await this.lease(doc.ref))) continue;
+      result.processed++;
+
+      const outcome = await this.deliver(doc.ref);
+      result[outcome]++;
+    }
+
+    console.log(
+      `[Webhooks] Fanned out ${result.eventsFannedOut} events; attempted ${result.processed} deliveries: ` +
+      `${result.delivered} delivered, ${result.rescheduled} rescheduled, ${result.dead} dead`
+    );
+
+    return result;
+  }
+
+  /**
+   * Deliveries that ran out of attempts, newest first
+   */
+  async listDeadLetters(filter: DeadLetterFilter): Promise<{ deliveries: WebhookDelivery[]; nextCursor?: string }> {
+    let query = this.db
+      .collection(DELIVERIES_COLLECTION)
+      .where('status', '==', 'dead');
+
+    if (filter.subscriptionId) {
+      query = query.where('subscriptionId', '==', filter.subscriptionId);
+    }
+
+    query = query.orderBy('createdAt', 'desc').limit(filter.limit + 1);
+
+    if (filter.cursor) {
+      const cursorDoc = await this.db.collection(DELIVERIES_COLLECTION).doc(filter.cursor).get();
+      if (cursorDoc.exists) {
+        query = query.startAfter(cursorDoc);
+      }
+    }
+
+    const snapshot = await query.get();
+    const docs = snapshot.docs.slice(0, filter.limit);
+
+    return {
+      deliveries: docs.map(doc => this.toDelivery(doc)),
+      nextCursor: snapshot.docs.length > filter.limit ? docs[docs.length - 1].id : undefined,
+    };
+  }
+
+  /**
+   * Reset a delivery's attempts and try it again right away
+   * Returns null when the delivery doesn't exist
+   */
+  async redeliver(deliveryId: string): Promise<WebhookDelivery | null> {
+    const ref = this.db.collection(DELIVERIES_COLLECTION).doc(deliveryId);
+    const doc = await ref.get();
+
+    if (!doc.exists) {
+      return null;
+    }
+
+    await ref.update({
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: new Date(Date.now() + DELIVERY_LEASE_MS),
+    });
+    await this.deliver(ref);
+
+    console.log(`[Webhooks] Redelivered ${deliveryId}`);
+    return this.toDelivery(await ref.get());
+  }
+
+  /**
+   * Create one delivery per matching active subscription for each new event
+   */
+  private async fanOutEvents(limit: number): Promise<number> {
+    const events = await this.db
+      .collection(EVENTS_COLLECTION)
+      .where('status', '==', 'pending')
+      .orderBy('createdAt', 'asc')
+      .limit(limit)
+      .get();
+
+    if (events.empty) {
+      return 0;
+    }
+
+    const subscriptions = await this.db
+      .collection(SUBSCRIPTIONS_COLLECTION)
+      .where('active', '==', true)
+      .get();
+
+    let fannedOut = 0;
+
+    for (const eventDoc of events.docs) {
+      const event = eventDoc.data();
+      const matching = subscriptions.docs.filter(sub => (sub.data().events || []).includes(event.type));
+
+      const claimed = await this.db.runTransaction(async (transaction) => {
+        const current = await transaction.get(eventDoc.ref);
+        if (current.data()?.status !== 'pending') {
+          return false;
+        }
+
+        for (const sub of matching) {
+          transaction.set(this.db.collection(DELIVERIES_COLLECTION).doc(), {
+            subscriptionId: sub.id,
+            eventId: eventDoc.id,
+            type: event.type,
+            url: sub.data().url,
+            status: 'pending',
+            attempts: 0,
+            lastError: null,
+            lastStatusCode: null,
+            nextAttemptAt: new Date(),
+            createdAt: admin.firestore.FieldValue.serverTimestamp(),
+            deliveredAt: null,
+          });
+        }
+
+        transaction.update(eventDoc.ref, {
+          status: 'fanned_out',
+          subscriptionCount: matching.length,
+          fannedOutAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        return true;
+      });
+
+      if (claimed) fannedOut++;
+    }
+
+    return fannedOut;
+  }
+
+  /**
+   * Push nextAttemptAt past the lease so concurrent dispatchers skip the delivery
+   */
+  private async lease(ref: admin.firestore.DocumentReference): Promise<boolean> {
+    return this.db.runTransaction(async (transaction) => {
+      const doc = await transaction.get(ref);
+      const data = doc.data();
+
+      if (!doc.exists || data?.status !== 'pending' || data.nextAttemptAt.toDate() > new Date()) {
+        return false;
+      }
+
+      transaction.update(ref, { nextAttemptAt: new Date(Date.now() + DELIVERY_LEASE_MS) });
+      return true;
+    });
+  }
+
+  private async deliver(ref: admin.firestore.DocumentReference): Promise<'delivered' | 'rescheduled' | 'dead'> {
+    const delivery = (await ref.get()).data()!;
+    const attempts = (delivery.attempts || 0) + 1;
+
+    let statusCode: number | null = null;
+    let lastError: string;
+
+    try {
+      const [subscriptionDoc, eventDoc] = await this.db.getAll(
+        this.db.collection(SUBSCRIPTIONS_COLLECTION).doc(delivery.subscriptionId),
+        this.db.collection(EVENTS_COLLECTION).doc(delivery.eventId)
+      );
+      const subscription = subscriptionDoc.data();
+      const event = eventDoc.data();
+
+      if (!subscription || !event) {
+        await ref.update({ status: 'dead', attempts, lastError: 'Subscription or event no longer exists' });
+        return 'dead';
+      }
+
+      const body = JSON.stringify({
+        id: eventDoc.id,
+        type: event.type,
+        createdAt: event.createdAt?.toDate().toISOString(),
+        data: event.data,
+      });
+      const timestamp = Math.floor(Date.now() / 1000);
+
+      // The URL was checked when saved, but DNS can change; postPublicUrl
+      // checks the address actually connected to
+      statusCode = await postPublicUrl(subscription.url, body, {
+        timeout: DELIVERY_TIMEOUT_MS,
+        headers: {
+          'Content-Type': 'application/json',
+          [SIGNATURE_HEADER]: signWebhookPayload(decryptSecret(subscription.secret, SECRET_KEY), timestamp, body),
+          'X-UpStyles-Event': event.type,
+          'X-UpStyles-Delivery': ref.id,
+        },
+      });
+
+      if (statusCode >= 200 && statusCode < 300) {
+        await ref.update({
+          status: 'delivered',
+          attempts,
+          lastStatusCode: statusCode,
+          lastError: null,
+          nextAttemptAt: null,
+          deliveredAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        return 'delivered';
+      }
+
+      lastError = `HTTP ${statusCode}`;
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    if (attempts >= MAX_ATTEMPTS) {
+      await ref.update({ status: 'dead', attempts, lastStatusCode: statusCode, lastError, nextAttemptAt: null });
+      console.error(`[Webhooks] Delivery ${ref.id} moved to dead letters after ${attempts} attempts: ${lastError}`);
+      return 'dead';
+    }
+
+    const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+    await ref.update({
+      attempts,
+      lastStatusCode: statusCode,
+      lastError,
+      nextAttemptAt: new Date(Date.now() + delay),
+    });
+    return 'rescheduled';
+  }
+
+  private toSubscription(doc: admin.firestore.DocumentSnapshot): WebhookSubscription {
+    const data = doc.data()!;
+
+    // Never return the secret
+    return {
+      id: doc.id,
+      url: data.url,
+      events: data.events,
+      description: data.description,
+      active: data.active,
+      createdBy: data.createdBy,
+      createdAt: data.createdAt?.toDate(),
+      updatedAt: data.updatedAt?.toDate(),
+    };
+  }
+
+  private toDelivery(doc: admin.firestore.DocumentSnapshot): WebhookDelivery {
+    const data = doc.data()!;
+
+    return {
+      id: doc.id,
+      subscriptionId: data.subscriptionId,
+      eventId: data.eventId,
+      type: data.type,
+      url: data.url,
+      status: data.status,
+      attempts: data.attempts,
+      lastError: data.lastError,
+      lastStatusCode: data.lastStatusCode,
+      nextAttemptAt: data.nextAttemptAt?.toDate() || null,
+      createdAt: data.createdAt?.toDate(),
+      deliveredAt: data.deliveredAt?.toDate() || null,
+    };
+  }
+}
@@ -0,0 +1,5 @@
+// The store base class ships with the package but isn't re-exported from its index
+declare module 'rate-limiter-flexible/lib/RateLimiterStoreAbstract.js' {
+  import { RateLimiterStoreAbstract } from 'rate-limiter-flexible';
+  export default RateLimiterStoreAbstract;
+}
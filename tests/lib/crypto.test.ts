@@ -0,0 +1,40 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { encryptSecret, decryptSecret } from '../../src/lib/crypto.js';
+
+describe('encryptSecret', () => {
+  const saved = { ...process.env };
+
+  beforeEach(() => {
+    process.env.EXTERNAL_TOKEN_ENCRYPTION_KEY = 'external-key';
+    process.env.WEBHOOK_SECRET_ENCRYPTION_KEY = 'webhook-key';
+  });
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it('round-trips with the same key', () => {
+    const encrypted = encryptSecret('whsec_abc', 'WEBHOOK_SECRET_ENCRYPTION_KEY');
+
+    expect(encrypted).toMatch(/^v1:/);
+    expect(encrypted).not.toContain('whsec_abc');
+    expect(decryptSecret(encrypted, 'WEBHOOK_SECRET_ENCRYPTION_KEY')).toBe('whsec_abc');
+  });
+
+  it('uses a fresh IV for every call', () => {
+    expect(encryptSecret('token')).not.toBe(encryptSecret('token'));
+  });
+
+  it('keeps webhook secrets unreadable with the OAuth token key', () => {
+    const encrypted = encryptSecret('whsec_abc', 'WEBHOOK_SECRET_ENCRYPTION_KEY');
+
+    expect(() => decryptSecret(encrypted, 'EXTERNAL_TOKEN_ENCRYPTION_KEY')).toThrow();
+  });
+
+  it('fails when the key is not configured', () => {
+    delete process.env.WEBHOOK_SECRET_ENCRYPTION_KEY;
+
+    expect(() => encryptSecret('whsec_abc', 'WEBHOOK_SECRET_ENCRYPTION_KEY'))
+      .toThrow('WEBHOOK_SECRET_ENCRYPTION_KEY is not configured');
+  });
+});
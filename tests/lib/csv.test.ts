@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { toCsv } from '../../src/lib/csv.js';
+
+describe('toCsv', () => {
+  it('writes a header row and rows in column order with CRLF endings', () => {
+    expect(toCsv(['type', 'count'], [{ count: 3, type: 'design' }, { type: 'tutorial', count: 1 }]))
+      .toBe('type,count\r\ndesign,3\r\ntutorial,1\r\n');
+  });
+
+  it('leaves missing values empty', () => {
+    expect(toCsv(['a', 'b', 'c'], [{ a: null, c: false }])).toBe('a,b,c\r\n,,false\r\n');
+  });
+
+  it('quotes fields with commas, quotes or line breaks', () => {
+    expect(toCsv(['reason'], [
+      { reason: 'blurry, dark' },
+      { reason: 'says "nice"' },
+      { reason: 'line one\nline two' },
+    ])).toBe('reason\r\n"blurry, dark"\r\n"says ""nice"""\r\n"line one\nline two"\r\n');
+  });
+
+  it('defuses text that a spreadsheet would run as a formula', () => {
+    expect(toCsv(['reason'], [
+      { reason: '=HYPERLINK("http://evil.example")' },
+      { reason: '+1' },
+      { reason: '-2' },
+      { reason: '@SUM(A1)' },
+    ])).toBe([
+      'reason',
+      `"'=HYPERLINK(""http://evil.example"")"`,
+      "'+1",
+      "'-2",
+      "'@SUM(A1)",
+    ].join('\r\n') + '\r\n');
+  });
+
+  it('keeps negative numbers as numbers', () => {
+    expect(toCsv(['delta'], [{ delta: -0.25 }])).toBe('delta\r\n-0.25\r\n');
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { hasPermission, permissionsFor, rolesFromClaims } from '../../src/lib/permissions.js';
+
+describe('rolesFromClaims', () => {
+  it('gives every signed-in user the user role', () => {
+    expect(rolesFromClaims({})).toEqual(['user']);
+  });
+
+  it('reads the roles array and ignores unknown roles', () => {
+    expect(rolesFromClaims({ roles: ['curator', 'owner', 42] })).toEqual(['user', 'curator']);
+  });
+
+  it('honours the legacy role and boolean claims', () => {
+    expect(rolesFromClaims({ role: 'moderator' })).toEqual(['user', 'moderator']);
+    expect(rolesFromClaims({ admin: true })).toEqual(['user', 'admin']);
+    expect(rolesFromClaims({ moderator: true, roles: ['curator'] })).toEqual(['user', 'curator', 'moderator']);
+  });
+
+  it('requires boolean claims to be exactly true', () => {
+    expect(rolesFromClaims({ admin: 'true', moderator: 1 })).toEqual(['user']);
+  });
+});
+
+describe('hasPermission', () => {
+  it('lets users manage their own content only', () => {
+    expect(hasPermission(['user'], 'submissions:create')).toBe(true);
+    expect(hasPermission(['user'], 'moderation:review')).toBe(false);
+    expect(hasPermission(['user'], 'collections:manage')).toBe(false);
+  });
+
+  it('separates curators from moderators', () => {
+    expect(hasPermission(['user', 'curator'], 'collections:manage')).toBe(true);
+    expect(hasPermission(['user', 'curator'], 'moderation:review')).toBe(false);
+    expect(hasPermission(['user', 'moderator'], 'moderation:review')).toBe(true);
+    expect(hasPermission(['user', 'moderator'], 'roles:manage')).toBe(false);
+  });
+
+  it('grants admins everything', () => {
+    const all = permissionsFor(['user', 'curator', 'moderator', 'admin']);
+    expect(all.every(permission => hasPermission(['admin'], permission))).toBe(true);
+  });
+
+  it('lets every role read its own quota', () => {
+    for (const role of ['user', 'curator', 'moderator', 'admin'] as const) {
+      expect(hasPermission([role], 'quota:read')).toBe(true);
+    }
+  });
+
+  it('grants nothing without roles', () => {
+    expect(hasPermission([], 'submissions:create')).toBe(false);
+  });
+});
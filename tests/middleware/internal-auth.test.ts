@@ -0,0 +1,34 @@
+import crypto from 'crypto';
+import { describe, it, expect } from 'vitest';
+import { signInternalRequest } from '../../src/middleware/internal-auth.js';
+
+describe('signInternalRequest', () => {
+  const secret = 'caller-secret';
+  const timestamp = 1760000000;
+  const body = JSON.stringify({ limit: 20 });
+
+  it('signs timestamp, method, path and raw body', () => {
+    const expected = crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}.POST./api/internal/moderation/retry.${body}`)
+      .digest('hex');
+
+    expect(signInternalRequest(secret, timestamp, 'post', '/api/internal/moderation/retry', body))
+      .toBe(`v1=${expected}`);
+  });
+
+  it('gives the same signature for a string or Buffer body', () => {
+    expect(signInternalRequest(secret, timestamp, 'POST', '/api/internal/x', Buffer.from(body)))
+      .toBe(signInternalRequest(secret, timestamp, 'POST', '/api/internal/x', body));
+  });
+
+  it('changes when any signed part changes', () => {
+    const base = signInternalRequest(secret, timestamp, 'POST', '/api/internal/x?a=1', body);
+
+    expect(signInternalRequest('other-secret', timestamp, 'POST', '/api/internal/x?a=1', body)).not.toBe(base);
+    expect(signInternalRequest(secret, timestamp + 1, 'POST', '/api/internal/x?a=1', body)).not.toBe(base);
+    expect(signInternalRequest(secret, timestamp, 'GET', '/api/internal/x?a=1', body)).not.toBe(base);
+    expect(signInternalRequest(secret, timestamp, 'POST', '/api/internal/x?a=2', body)).not.toBe(base);
+    expect(signInternalRequest(secret, timestamp, 'POST', '/api/internal/x?a=1', `${body} `)).not.toBe(base);
+  });
+});
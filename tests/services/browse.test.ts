@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { IndexedEntry, searchIndex } from '../../src/services/browse.js';
+import { BrowseEntriesQuerySchema } from '../../src/lib/validation.js';
+
+function entry(
+  id: string,
+  values: Partial<IndexedEntry['values']> = {},
+  fields: Partial<Omit<IndexedEntry, 'values'>> = {}
+): IndexedEntry {
+  return {
+    path: `explore_collections/${fields.collectionId || 'spotlight'}/entries/${id}`,
+    collectionId: 'spotlight',
+    values: { type: [], tags: [], difficulty: [], priceRange: [], materials: [], ...values },
+    trendScore: 0,
+    createdAt: 0,
+    ...fields,
+  };
+}
+
+const query = (params: Record<string, string> = {}) => BrowseEntriesQuerySchema.parse(params);
+const ids = (entries: IndexedEntry[]) => entries.map(e => e.path.split('/').pop());
+
+const index = [
+  entry('e1', { type: ['design'], tags: ['chrome'], difficulty: ['beginner'] }, { trendScore: 0.9 }),
+  entry('e2', { type: ['design'], tags: ['chrome', 'aura'], difficulty: ['advanced'] }, { trendScore: 0.5 }),
+  entry('e3', { type: ['tutorial'], tags: ['chrome'], difficulty: ['beginner'] }, { trendScore: 0.7 }),
+  entry('e4', { type: ['tutorial'], tags: ['french'], difficulty: ['beginner'] }, { trendScore: 0.1, collectionId: 'classics' }),
+];
+
+describe('searchIndex', () => {
+  it('counts every entry when nothing is filtered', () => {
+    const result = searchIndex(index, query());
+
+    expect(result.total).toBe(4);
+    expect(result.facets.type).toEqual({ design: 2, tutorial: 2 });
+    expect(result.facets.tags).toEqual({ chrome: 3, aura: 1, french: 1 });
+  });
+
+  it("counts each facet against every filter except its own", () => {
+    const result = searchIndex(index, query({ type: 'design', difficulty: 'beginner' }));
+
+    expect(ids(result.page)).toEqual(['e1']);
+    // Types among beginner entries, ignoring the type filter
+    expect(result.facets.type).toEqual({ design: 1, tutorial: 2 });
+    // Difficulties among designs, ignoring the difficulty filter
+    expect(result.facets.difficulty).toEqual({ beginner: 1, advanced: 1 });
+    // Other facets apply both filters
+    expect(result.facets.tags).toEqual({ chrome: 1 });
+  });
+
+  it('matches any of several values within a facet', () => {
+    const result = searchIndex(index, query({ tags: 'aura,french' }));
+
+    expect(ids(result.page)).toEqual(['e2', 'e4']);
+  });
+
+  it('limits results and counts to one collection', () => {
+    const result = searchIndex(index, query({ collectionId: 'classics' }));
+
+    expect(ids(result.page)).toEqual(['e4']);
+    expect(result.facets.type).toEqual({ tutorial: 1 });
+  });
+
+  it('keeps the 30 most common tags', () => {
+    const many = Array.from({ length: 40 }, (_, i) =>
+      entry(`t${i}`, { tags: Array.from({ length: i + 1 }, (_, t) => `tag${t}`) }));
+
+    const { facets } = searchIndex(many, query());
+
+    expect(Object.keys(facets.tags)).toHaveLength(30);
+    expect(facets.tags.tag0).toBe(40);
+    expect(facets.tags.tag35).toBeUndefined();
+  });
+
+  it('sorts by trendScore or newest, breaking ties by path', () => {
+    const tied = [
+      entry('b', {}, { trendScore: 0.5, createdAt: 1 }),
+      entry('a', {}, { trendScore: 0.5, createdAt: 3 }),
+      entry('c', {}, { trendScore: 0.8, createdAt: 2 }),
+    ];
+
+    expect(ids(searchIndex(tied, query()).page)).toEqual(['c', 'a', 'b']);
+    expect(ids(searchIndex(tied, query({ sort: 'newest' })).page)).toEqual(['a', 'c', 'b']);
+  });
+});
+
+describe('browse cursors', () => {
+  const entries = Array.from({ length: 7 }, (_, i) => entry(`p${i}`, {}, { trendScore: i % 3 }));
+
+  function pageThrough(current: IndexedEntry[], limit: string) {
+    const seen: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const result = searchIndex(current, query({ limit, ...(cursor ? { cursor } : {}) }));
+      seen.push(...ids(result.page) as string[]);
+      cursor = result.nextCursor;
+    } while (cursor);
+
+    return seen;
+  }
+
+  it('visits every entry once', () => {
+    const seen = pageThrough(entries, '2');
+
+    expect(seen).toHaveLength(7);
+    expect(new Set(seen).size).toBe(7);
+    expect(seen).toEqual(ids(searchIndex(entries, query({ limit: '100' })).page));
+  });
+
+  it('resumes after the last entry when entries are added before it', () => {
+    const first = searchIndex(entries, query({ limit: '3' }));
+    const grown = [...entries, entry('new', {}, { trendScore: 5 })];
+
+    const next = searchIndex(grown, query({ limit: '3', cursor: first.nextCursor! }));
+
+    expect(ids(next.page)).not.toContain('new');
+    expect(ids(next.page)).not.toContain(ids(first.page)[2]);
+    expect(ids(next.page)).toEqual(ids(searchIndex(entries, query({ limit: '100' })).page).slice(3, 6));
+  });
+
+  it('starts over for a cursor it cannot read', () => {
+    expect(ids(searchIndex(entries, query({ limit: '2', cursor: 'garbage' })).page))
+      .toEqual(ids(searchIndex(entries, query({ limit: '2' })).page));
+  });
+});
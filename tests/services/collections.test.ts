@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { CollectionEntry, compareEntryOrder } from '../../src/services/collections.js';
+
+function entry(id: string, fields: Partial<CollectionEntry> = {}): CollectionEntry {
+  return {
+    id,
+    collectionId: 'c1',
+    position: 0,
+    pinned: false,
+    pinnedAt: null,
+    createdAt: null,
+    updatedAt: null,
+    ...fields,
+  };
+}
+
+describe('compareEntryOrder', () => {
+  it('puts pinned entries first, most recently pinned on top, then by position', () => {
+    const entries = [
+      entry('late', { position: 3 }),
+      entry('pinned-old', { pinned: true, pinnedAt: new Date('2026-01-01'), position: 9 }),
+      entry('early', { position: -5 }),
+      entry('pinned-new', { pinned: true, pinnedAt: new Date('2026-02-01'), position: 10 }),
+    ];
+
+    expect(entries.sort(compareEntryOrder).map(e => e.id)).toEqual([
+      'pinned-new', 'pinned-old', 'early', 'late',
+    ]);
+  });
+
+  it('orders pinned entries without pinnedAt after dated ones', () => {
+    const entries = [
+      entry('undated', { pinned: true }),
+      entry('dated', { pinned: true, pinnedAt: new Date('2026-01-01') }),
+    ];
+
+    expect(entries.sort(compareEntryOrder).map(e => e.id)).toEqual(['dated', 'undated']);
+  });
+});
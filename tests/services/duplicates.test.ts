@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { hashBands, hashProbes, hammingDistance } from '../../src/services/duplicates.js';
+
+function flipBits(hash: string, bits: number[]): string {
+  let value = BigInt(`0x${hash}`);
+  for (const bit of bits) value ^= 1n << BigInt(bit);
+  return value.toString(16).padStart(16, '0');
+}
+
+describe('hammingDistance', () => {
+  it('counts differing bits', () => {
+    expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(hammingDistance('0000000000000000', '000000000000000f')).toBe(4);
+    expect(hammingDistance('ffffffffffffffff', '0000000000000000')).toBe(64);
+  });
+});
+
+describe('hashBands', () => {
+  it('splits a hash into four indexed 16-bit bands', () => {
+    expect(hashBands('0123456789abcdef')).toEqual(['0:0123', '1:4567', '2:89ab', '3:cdef']);
+  });
+
+  it('keeps equal chunks at different offsets apart', () => {
+    const bands = hashBands('aaaaaaaaaaaaaaaa');
+    expect(new Set(bands).size).toBe(4);
+  });
+});
+
+describe('hashProbes', () => {
+  const matches = (query: string, stored: string) =>
+    hashProbes(query).some(probe => hashBands(stored).includes(probe));
+
+  it('probes each band as-is and with every single bit flipped', () => {
+    const probes = hashProbes('0123456789abcdef');
+
+    expect(probes).toHaveLength(4 * 17);
+    expect(new Set(probes).size).toBe(probes.length);
+    expect(probes).toContain('0:0123');
+    expect(probes).toContain('0:0122');
+    expect(probes).toContain('3:4def');
+  });
+
+  it('finds any hash within 7 bits', () => {
+    const hash = '8f3a5c7e19d2b460';
+
+    // Worst case: bits spread so three bands differ in two bits, one in one
+    for (let offset = 0; offset < 14; offset++) {
+      const bits = [0, 1, 16, 17, 32, 33, 48].map(bit => bit + offset);
+      const near = flipBits(hash, bits);
+
+      expect(hammingDistance(hash, near)).toBe(7);
+      expect(matches(near, hash)).toBe(true);
+    }
+  });
+
+  it('can miss hashes 8 bits apart', () => {
+    const hash = '8f3a5c7e19d2b460';
+    const far = flipBits(hash, [0, 1, 16, 17, 32, 33, 48, 49]);
+
+    expect(matches(far, hash)).toBe(false);
+  });
+});
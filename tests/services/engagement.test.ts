@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import admin from 'firebase-admin';
+import { isDuplicateEngagement } from '../../src/services/engagement.js';
+
+const now = Date.parse('2026-03-01T12:00:00Z');
+const minutesAgo = (minutes: number) => admin.firestore.Timestamp.fromMillis(now - minutes * 60 * 1000);
+
+describe('isDuplicateEngagement', () => {
+  it('counts the first event of each action', () => {
+    for (const action of ['view', 'save', 'share', 'book'] as const) {
+      expect(isDuplicateEngagement(action, undefined, now)).toBe(false);
+      expect(isDuplicateEngagement(action, {}, now)).toBe(false);
+    }
+  });
+
+  it('dedupes views inside the view window only', () => {
+    expect(isDuplicateEngagement('view', { lastViewedAt: minutesAgo(5) }, now)).toBe(true);
+    expect(isDuplicateEngagement('view', { lastViewedAt: minutesAgo(31) }, now)).toBe(false);
+  });
+
+  it('dedupes shares inside the share window only', () => {
+    expect(isDuplicateEngagement('share', { lastSharedAt: minutesAgo(60) }, now)).toBe(true);
+    expect(isDuplicateEngagement('share', { lastSharedAt: minutesAgo(25 * 60) }, now)).toBe(false);
+  });
+
+  it('counts saves and bookings once per user and entry', () => {
+    expect(isDuplicateEngagement('save', { savedAt: minutesAgo(60 * 24 * 365) }, now)).toBe(true);
+    expect(isDuplicateEngagement('book', { bookedAt: minutesAgo(60 * 24 * 365) }, now)).toBe(true);
+  });
+
+  it('tracks each action separately', () => {
+    const record = { lastViewedAt: minutesAgo(1) };
+
+    expect(isDuplicateEngagement('save', record, now)).toBe(false);
+    expect(isDuplicateEngagement('share', record, now)).toBe(false);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AffinityProfile,
+  FeedCandidate,
+  FeedEntry,
+  decodeCursor,
+  encodeCursor,
+  fillPage,
+  scoreEntry,
+} from '../../src/services/feed.js';
+
+let nextId = 0;
+
+function entry(collectionId: string, fields: Partial<FeedEntry> = {}): FeedEntry {
+  return {
+    id: `e${++nextId}`,
+    collectionId,
+    title: 'Entry',
+    type: 'design',
+    mediaUrl: '',
+    thumbUrl: '',
+    tags: [],
+    trendScore: 0.5,
+    score: 0.5,
+    ...fields,
+  };
+}
+
+async function* candidates(entries: FeedEntry[]): AsyncGenerator<FeedCandidate> {
+  for (const e of entries) {
+    yield { entry: e, phase: 'ranked', sortValue: e.score };
+  }
+}
+
+const ids = (entries: FeedEntry[]) => entries.map(e => e.id);
+
+describe('scoreEntry', () => {
+  const profile: AffinityProfile = {
+    tags: { chrome: 1 },
+    types: { tutorial: 1 },
+    difficulty: {},
+    priceRange: {},
+  };
+
+  it('uses trendScore when there is no profile', () => {
+    expect(scoreEntry(entry('a', { trendScore: 0.8 }), null)).toBe(0.8);
+  });
+
+  it('blends affinity with trendScore', () => {
+    const matching = entry('a', { trendScore: 0.2, tags: ['chrome'], type: 'tutorial' });
+    const trending = entry('a', { trendScore: 0.9, tags: ['french'] });
+
+    expect(scoreEntry(matching, profile)).toBeCloseTo(0.4 * 0.2 + 0.6 * (0.4 + 0.25));
+    expect(scoreEntry(trending, profile)).toBeCloseTo(0.4 * 0.9);
+    expect(scoreEntry(matching, profile)).toBeGreaterThan(scoreEntry(trending, profile));
+  });
+});
+
+describe('fillPage', () => {
+  it('caps entries per collection and defers the rest', async () => {
+    const fromA = Array.from({ length: 6 }, () => entry('a'));
+    const fromB = Array.from({ length: 3 }, () => entry('b'));
+
+    const page = await fillPage([], candidates([...fromA, ...fromB]), 6);
+
+    expect(ids(page.entries)).toEqual(ids([...fromA.slice(0, 4), ...fromB.slice(0, 2)]));
+    expect(ids(page.deferred)).toEqual(ids(fromA.slice(4)));
+    expect(page.last?.entry).toBe(fromB[1]);
+    expect(page.exhausted).toBe(false);
+  });
+
+  it('caps entries per creator', async () => {
+    const byOne = Array.from({ length: 3 }, (_, i) => entry(`c${i}`, { submitterId: 'creator1' }));
+    const other = entry('d', { submitterId: 'creator2' });
+
+    const page = await fillPage([], candidates([...byOne, other]), 3);
+
+    expect(ids(page.entries)).toEqual(ids([byOne[0], byOne[1], other]));
+    expect(ids(page.deferred)).toEqual(ids([byOne[2]]));
+  });
+
+  it('fills the page from deferred entries once candidates run out', async () => {
+    const fromA = Array.from({ length: 6 }, () => entry('a'));
+
+    const page = await fillPage([], candidates(fromA), 5);
+
+    expect(ids(page.entries)).toEqual(ids(fromA.slice(0, 5)));
+    expect(ids(page.deferred)).toEqual(ids(fromA.slice(5)));
+    expect(page.exhausted).toBe(true);
+  });
+
+  it('places entries carried from the previous page first', async () => {
+    const carried = [entry('a'), entry('b')];
+    const fresh = [entry('c'), entry('d')];
+
+    const page = await fillPage(carried, candidates(fresh), 3);
+
+    expect(ids(page.entries)).toEqual(ids([...carried, fresh[0]]));
+    expect(page.last?.entry).toBe(fresh[0]);
+  });
+
+  it('stops deferring once the carry limit is reached', async () => {
+    const fromA = Array.from({ length: 16 }, () => entry('a'));
+
+    const page = await fillPage([], candidates(fromA), 5);
+
+    expect(page.deferred).toHaveLength(10);
+    expect(ids(page.entries)).toEqual(ids([...fromA.slice(0, 4), fromA[14]]));
+  });
+});
+
+describe('feed cursors', () => {
+  const cursor = {
+    ph: 'ranked' as const,
+    s: 0.42,
+    p: 'explore_collections/a/entries/e1',
+    d: ['explore_collections/b/entries/e2'],
+  };
+
+  it('round-trips', () => {
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+  });
+
+  it('treats a missing or malformed cursor as the first page', () => {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+    expect(decodeCursor(undefined)).toBeNull();
+    expect(decodeCursor('not base64 json')).toBeNull();
+    expect(decodeCursor(encode({ o: 20 }))).toBeNull();
+    expect(decodeCursor(encode({ ...cursor, ph: 'other' }))).toBeNull();
+    expect(decodeCursor(encode({ ...cursor, d: ['users/u1'] }))).toBeNull();
+    expect(decodeCursor(encode({ ...cursor, d: Array(11).fill(cursor.p) }))).toBeNull();
+  });
+});
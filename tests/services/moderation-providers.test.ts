@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CompositeModerationProvider,
+  ImageModerationResult,
+  ModerationProvider,
+  buildImageResult,
+  safeSearchLikelihood,
+} from '../../src/services/moderation-providers.js';
+
+function provider(name: string, costPerImage: number, adult: number | Error): ModerationProvider {
+  const self = {
+    name,
+    version: '1',
+    costPerImage,
+    async moderateImage(): Promise<ImageModerationResult> {
+      if (adult instanceof Error) throw adult;
+      return buildImageResult(self, { adult, violence: 0, racy: 0 });
+    },
+  };
+  return self;
+}
+
+describe('safeSearchLikelihood', () => {
+  it('keeps VERY_UNLIKELY at 0', () => {
+    expect(safeSearchLikelihood('VERY_UNLIKELY')).toBe(0);
+  });
+
+  it('maps the other levels', () => {
+    expect(safeSearchLikelihood('UNLIKELY')).toBe(0.2);
+    expect(safeSearchLikelihood('POSSIBLE')).toBe(0.5);
+    expect(safeSearchLikelihood('LIKELY')).toBe(0.8);
+    expect(safeSearchLikelihood('VERY_LIKELY')).toBe(1);
+  });
+
+  it('treats unknown or missing levels as possible', () => {
+    expect(safeSearchLikelihood('UNKNOWN')).toBe(0.5);
+    expect(safeSearchLikelihood(undefined)).toBe(0.5);
+  });
+});
+
+describe('CompositeModerationProvider', () => {
+  it('charges the fallback provider when the primary fails', async () => {
+    const composite = new CompositeModerationProvider([
+      provider('primary', 0.002, new Error('down')),
+      provider('backup', 0.0005, 0.1),
+    ]);
+
+    const result = await composite.moderateImage('https://example.com/a.jpg');
+
+    expect(result.provider).toBe('backup');
+    expect(result.cost).toBe(0.0005);
+  });
+
+  it('charges every provider that answered with the max strategy', async () => {
+    const composite = new CompositeModerationProvider([
+      provider('a', 0.002, 0.9),
+      provider('b', 0.001, 0.1),
+      provider('c', 0.005, new Error('down')),
+    ], 'max');
+
+    const result = await composite.moderateImage('https://example.com/a.jpg');
+
+    expect(result.inappropriate).toBe(0.9);
+    expect(result.cost).toBeCloseTo(0.003);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { diffVersions } from '../../src/services/submissions.js';
+
+const version = {
+  title: 'Chrome nails',
+  description: 'Gel and chrome',
+  type: 'design',
+  mediaUrls: ['https://cdn.example.com/1.jpg', 'https://cdn.example.com/2.jpg'],
+  tags: ['chrome', 'gel'],
+  difficulty: 'beginner',
+  priceRange: 'budget',
+  materials: ['gel'],
+};
+
+describe('diffVersions', () => {
+  it('returns nothing for identical versions', () => {
+    expect(diffVersions(version, { ...version })).toEqual([]);
+  });
+
+  it('reports changed scalar fields with both values', () => {
+    expect(diffVersions(version, { ...version, title: 'Chrome aura nails' })).toEqual([
+      { field: 'title', from: 'Chrome nails', to: 'Chrome aura nails' },
+    ]);
+  });
+
+  it('treats missing fields as null', () => {
+    const { difficulty: _, ...withoutDifficulty } = version;
+
+    expect(diffVersions(withoutDifficulty, version)).toEqual([
+      { field: 'difficulty', from: null, to: 'beginner' },
+    ]);
+  });
+
+  it('reports added and removed list values', () => {
+    expect(diffVersions(version, { ...version, tags: ['chrome', 'aura'], materials: undefined })).toEqual([
+      { field: 'tags', added: ['aura'], removed: ['gel'] },
+      { field: 'materials', added: [], removed: ['gel'] },
+    ]);
+  });
+
+  it('reports a reorder with empty added and removed', () => {
+    const reordered = { ...version, mediaUrls: [...version.mediaUrls].reverse() };
+
+    expect(diffVersions(version, reordered)).toEqual([
+      { field: 'mediaUrls', added: [], removed: [] },
+    ]);
+  });
+});
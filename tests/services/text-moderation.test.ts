@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { moderateText } from '../../src/services/text-moderation.js';
+
+const categories = (input: Parameters<typeof moderateText>[0]) =>
+  moderateText(input).findings.map(finding => finding.category);
+
+describe('moderateText', () => {
+  it('passes ordinary text', () => {
+    const result = moderateText({
+      title: 'Chrome aura nails',
+      description: 'Gel base with chrome powder, cured for 60 seconds. Dickens-inspired florals.',
+      tags: ['chrome', 'aura'],
+      materials: ['gel', 'chrome powder'],
+    });
+
+    expect(result).toEqual({ score: 0, reasons: [], findings: [] });
+  });
+
+  it('finds profanity, including common substitutions', () => {
+    expect(categories({ title: 'this is sh1t' })).toEqual(['profanity']);
+    expect(categories({ description: 'F*** no, just FUCK' })).toEqual(['profanity']);
+    expect(moderateText({ title: 'sh1t' }).score).toBe(0.6);
+  });
+
+  it('matches whole words only', () => {
+    expect(categories({ title: 'Scunthorpe shitake cocktail' })).toEqual([]);
+  });
+
+  it('finds contact details', () => {
+    expect(categories({ description: 'Email jane.doe+nails@example.co.uk' })).toEqual(['contact']);
+    expect(categories({ description: 'DM me for the full set' })).toEqual(['contact']);
+    expect(categories({ description: 'Call +1 (555) 123-4567' })).toEqual(['phone']);
+  });
+
+  it('leaves short numbers and dates alone', () => {
+    expect(categories({ description: 'Cure 60s, 2 coats, done 2024-01-15' })).toEqual([]);
+  });
+
+  it('separates a single link from link spam', () => {
+    expect(categories({ description: 'Tutorial at https://example.com/chrome' })).toEqual(['link']);
+    expect(categories({ description: 'https://a.com/1 and www.b.com/2' })).toEqual(['link_spam']);
+    expect(categories({ description: 'Shop here bit.ly/nails' })).toEqual(['link_spam']);
+  });
+
+  it('flags hashtag stuffing across title and description', () => {
+    const hashtags = (count: number) => Array.from({ length: count }, (_, i) => `#tag${i}`).join(' ');
+
+    expect(categories({ title: '#nails', description: hashtags(9) })).toEqual([]);
+    expect(categories({ title: '#nails', description: hashtags(10) })).toEqual(['hashtag_stuffing']);
+  });
+
+  it('reports the field and scores by the worst finding', () => {
+    const result = moderateText({
+      title: 'Nice set',
+      tags: ['chrome', 'shit'],
+      description: 'More at https://example.com/set',
+    });
+
+    expect(result.findings).toEqual([
+      { field: 'description', category: 'link', match: 'https://example.com/set' },
+      { field: 'tags', category: 'profanity', match: 'shit' },
+    ]);
+    expect(result.score).toBe(0.6);
+    expect(result.reasons).toEqual(['Contains a link', 'Profanity']);
+  });
+});
@@ -0,0 +1,22 @@
+import crypto from 'crypto';
+import { describe, it, expect } from 'vitest';
+import { signWebhookPayload } from '../../src/services/webhooks.js';
+
+describe('signWebhookPayload', () => {
+  const secret = 'whsec_test';
+  const body = JSON.stringify({ id: 'evt1', type: 'entry.published', data: {} });
+
+  it('signs "<t>.<body>" and sends the timestamp alongside', () => {
+    const expected = crypto.createHmac('sha256', secret).update(`1760000000.${body}`).digest('hex');
+
+    expect(signWebhookPayload(secret, 1760000000, body)).toBe(`t=1760000000,v1=${expected}`);
+  });
+
+  it('changes with the timestamp, body and secret', () => {
+    const base = signWebhookPayload(secret, 1760000000, body);
+
+    expect(signWebhookPayload(secret, 1760000001, body)).not.toBe(base);
+    expect(signWebhookPayload(secret, 1760000000, `${body}\n`)).not.toBe(base);
+    expect(signWebhookPayload('whsec_other', 1760000000, body)).not.toBe(base);
+  });
+});